@@ -1,55 +1,194 @@
+import type { RundownConfig } from '@/services/rundownService'
+
 export const DEFAULT_DIVISIONS: DivisionConfig[] = [
-    { name: '7-11 FEMALE', prefix: 'A' },
-    { name: '12-15 FEMALE', prefix: 'B' },
-    { name: '16+ FEMALE', prefix: 'C' },
-    { name: '7-11 MALE', prefix: 'D' },
-    { name: '12-15 MALE', prefix: 'E' },
-    { name: '16+ MALE', prefix: 'F' },
-    { name: 'OPEN+ FEMALE', prefix: 'G' },
-    { name: 'OPEN+ MALE', prefix: 'H' }
+    { name: '7-11 FEMALE', prefix: 'A', gender: 'F', minAge: 7, maxAge: 11 },
+    { name: '12-15 FEMALE', prefix: 'B', gender: 'F', minAge: 12, maxAge: 15 },
+    { name: '16+ FEMALE', prefix: 'C', gender: 'F', minAge: 16 },
+    { name: '7-11 MALE', prefix: 'D', gender: 'M', minAge: 7, maxAge: 11 },
+    { name: '12-15 MALE', prefix: 'E', gender: 'M', minAge: 12, maxAge: 15 },
+    { name: '16+ MALE', prefix: 'F', gender: 'M', minAge: 16 },
+    { name: 'OPEN+ FEMALE', prefix: 'G', gender: 'F' },
+    { name: 'OPEN+ MALE', prefix: 'H', gender: 'M' }
 ]
 
-export const DEFAULT_EVENTS = [
+export const DEFAULT_EVENTS: EventConfig[] = [
     { code: 'SRSS', name: 'Single Rope Speed Sprint' },
     { code: 'SRSE', name: 'Single Rope Speed Endurance' },
-    { code: 'SRSR', name: 'Single Rope Speed Relay' },
-    { code: 'SRDR', name: 'Single Rope Double Unders Relay' },
+    { code: 'SRSR', name: 'Single Rope Speed Relay', minGroupSize: 4, maxGroupSize: 4 },
+    { code: 'SRDR', name: 'Single Rope Double Unders Relay', minGroupSize: 4, maxGroupSize: 4 },
     { code: 'SRJJ', name: 'Single Rope Jump Jump' },
-    { code: 'SRJJR', name: 'Single Rope Jump Jump Relay' },
+    { code: 'SRJJR', name: 'Single Rope Jump Jump Relay', minGroupSize: 4, maxGroupSize: 4 },
     { code: 'SRTU', name: 'Single Rope Triple Unders' },
-    { code: 'DDSS', name: 'Double Dutch Speed Sprint' },
-    { code: 'DDSR', name: 'Double Dutch Speed Relay' },
+    { code: 'DDSS', name: 'Double Dutch Speed Sprint', minGroupSize: 3, maxGroupSize: 4 },
+    { code: 'DDSR', name: 'Double Dutch Speed Relay', minGroupSize: 3, maxGroupSize: 4 },
     { code: 'SRIF', name: 'Single Rope Individual Freestyle' },
     { code: 'SRIF_LEVEL 1', name: 'Single Rope Individual Freestyle Level 1' },
     { code: 'SRIF_LEVEL 2', name: 'Single Rope Individual Freestyle Level 2' },
-    { code: 'SRPF', name: 'Single Rope Pair Freestyle' },
+    { code: 'SRPF', name: 'Single Rope Pair Freestyle', minGroupSize: 2, maxGroupSize: 2 },
     { code: 'SRTF', name: 'Single Rope Team Freestyle' },
     { code: 'DDPF', name: 'Double Dutch Pair Freestyle' },
-    { code: 'DDTF', name: 'Double Dutch Team Freestyle' }
+    { code: 'DDTF', name: 'Double Dutch Team Freestyle', minGroupSize: 3, maxGroupSize: 4 }
 ]
 
+export type Gender = 'F' | 'M'
+
+// A person, independent of how many events they are entered in
+export type Athlete = {
+    id: string
+    name: string // Uppercase, as printed on entries
+    team: string
+    gender?: Gender
+    dateOfBirth?: string // YYYY-MM-DD
+    federationId?: string
+}
+
+// Unset = active. Scratched and DNS entries keep their slot, which is left empty on the day.
+export type EntryStatus = 'active' | 'scratched' | 'dns' | 'dq' | 'late'
+
 export type Participant = {
     id: string
-    name: string
+    name: string // Display name; for linked entries this mirrors the athletes' names
+    athleteIds?: string[] // Athletes competing in this entry (missing on unlinked legacy data)
     team: string
     eventCode: string
     division: string
     notes?: string
-    customId?: string
+    status?: EntryStatus // Shared by a group
+    statusReason?: string
+    statusAt?: string // ISO timestamp of the last status change
+    entryNumber?: number // Stored number behind the entry code (A007 = 7); shared by a group
     groupId?: string // Added to support merged team/pair entries
     // Scheduling Info
+    floorId?: string
     heat?: number
     station?: number
     scheduleTime?: string
+    heatLocked?: boolean // Heat is left as is when the rundown is regenerated
 }
 
 export type EventConfig = {
     code: string
     name: string
     allowedDivisions?: string[] // If empty/undefined, all divisions are allowed
+    // Eligibility rules; unset = not checked
+    minGroupSize?: number // Athletes per entry
+    maxGroupSize?: number
+    maxEntriesPerTeam?: number // Per division
+    scoring?: ScoringKind // Unset = guessed from the code (see getScoringKind)
 }
 
 export type DivisionConfig = {
     name: string
     prefix: string
+    // Eligibility rules; unset = not checked. Ages are on the competition date.
+    gender?: Gender
+    minAge?: number
+    maxAge?: number
+}
+
+// Speed events are scored on counted jumps, freestyle events by a panel of judges
+export type ScoringKind = 'speed' | 'freestyle'
+
+export type ScoringConfig = {
+    falseStartDeduction: number // Speed: counts taken off per false start
+    missDeduction: number // Speed: counts taken off per miss / false switch
+    judgeCount: number // Freestyle: judges on the panel
+    dropHighLow: boolean // Freestyle: ignore each entry's highest and lowest score (with 3+ judges)
+    placePoints: number[] // Points for 1st, 2nd, …; later places score nothing
+}
+
+export const DEFAULT_SCORING: ScoringConfig = {
+    falseStartDeduction: 10,
+    missDeduction: 5,
+    judgeCount: 3,
+    dropHighLow: false,
+    placePoints: [10, 8, 6, 5, 4, 3, 2, 1]
+}
+
+// One entry's result, keyed like the rundown: groupId || participant id
+export type EntryResult = {
+    entryKey: string
+    count?: number // Speed: raw counted jumps
+    falseStarts?: number
+    misses?: number
+    judgeScores?: (number | null)[] // Freestyle: one per judge; null = not in yet
+    deductions?: number // Freestyle: taken off the judges' score
+    updatedAt?: string // ISO timestamp
+}
+
+// What actually happened to one heat on competition day
+export type LiveHeatLog = {
+    floorId: string
+    heat: number
+    startedAt?: string // ISO timestamp
+    finishedAt?: string // ISO timestamp
+}
+
+// Competition-day tracking; projected times for the remaining heats are derived from the log
+export type LiveState = {
+    enabled: boolean
+    heats: LiveHeatLog[]
+}
+
+export const DEFAULT_LIVE_STATE: LiveState = { enabled: false, heats: [] }
+
+// Used for rundowns when no floors are configured (single linear timeline)
+export const DEFAULT_FLOOR_ID = 'MAIN'
+
+export type FloorConfig = {
+    id: string
+    name: string
+    stationCount: number
+    startTime: string // HH:MM
+}
+
+// A block of the competition on one day, e.g. Saturday morning. Each session is scheduled on its own.
+export type SessionConfig = {
+    id: string
+    label: string
+    date: string // YYYY-MM-DD
+    startTime: string // HH:MM
+    endTime?: string // HH:MM; running past it is reported
+}
+
+export type ScheduleBlockKind = 'break' | 'warm-up' | 'ceremony' | 'other'
+
+// Non-competition time in a floor's timeline (lunch, warm-up, ceremonies); later heats shift around it
+export type ScheduleBlock = {
+    id: string
+    kind: ScheduleBlockKind
+    label: string
+    afterEvent?: string // Runs after this event's heats; unset = before the floor's first heat
+    afterEventHeat?: number // Runs after this heat of the event instead (1 = its first heat)
+    floorId?: string // Floor for blocks at the start of the day; unset = first floor
+    duration: number // minutes
+    fixedStart?: string // HH:MM; the block waits until this time if the heats before it finish early
+}
+
+// Entry in the saved competitions index (shown on the landing page)
+export type CompetitionMeta = {
+    id: string
+    name: string
+    date: string
+    lastModified: string
+}
+
+// Everything stored for one competition
+export type CompetitionData = {
+    events: EventConfig[]
+    divisions: DivisionConfig[]
+    participants: Participant[]
+    athletes: Athlete[]
+    entryCodes: Record<string, string>
+    entryCodeScheme: string // Pattern the prefixes were last generated from, e.g. "{eventIndex}{divisionPrefix}"; '' = typed by hand
+    eventStartTimes: Record<string, string>
+    eventRundownConfigs: Record<string, RundownConfig>
+    floors: FloorConfig[]
+    scheduleBlocks: ScheduleBlock[]
+    sessions: SessionConfig[] // Empty = one session on competitionDate
+    results: EntryResult[]
+    scoring: ScoringConfig
+    live: LiveState
+    competitionTitle: string
+    competitionDate: string
 }
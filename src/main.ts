@@ -12,13 +12,13 @@ const app = createApp(App)
 // 1. Install Pinia first (Required for store to work)
 app.use(createPinia())
 
-// 2. Initialize Persistence immediately
-// This ensures 'activeCompetitionId' is restored FROM LocalStorage
-// BEFORE the router guard checks it.
-// initPersistence() // REMOVED: Persistence initialization logic has been changed/removed.
+// 2. Initialize Persistence before anything renders
+// Loads the competition index from IndexedDB (migrating old localStorage data on first launch)
+// and hydrates the active competition BEFORE the router guard checks it.
+useNamelistStore().init().finally(() => {
+    // 3. Install Router last
+    // Now when the router starts and checks the guard, the data is ready.
+    app.use(router)
 
-// 3. Install Router last
-// Now when the router starts and checks the guard, the data is ready.
-app.use(router)
-
-app.mount('#app')
\ No newline at end of file
+    app.mount('#app')
+})
\ No newline at end of file
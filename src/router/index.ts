@@ -5,6 +5,13 @@ import SettingsView from '../views/SettingsView.vue'
 import RundownView from '../views/RundownView.vue'
 import RundownPrintView from '../views/RundownPrintView.vue'
 import LandingView from '../views/LandingView.vue'
+import AthleteView from '../views/AthleteView.vue'
+import ValidationView from '../views/ValidationView.vue'
+import DataQualityView from '../views/DataQualityView.vue'
+import ResultsView from '../views/ResultsView.vue'
+import ResultsPrintView from '../views/ResultsPrintView.vue'
+import JudgeSheetPrintView from '../views/JudgeSheetPrintView.vue'
+import TeamPacketPrintView from '../views/TeamPacketPrintView.vue'
 import { useNamelistStore } from '@/stores/namelist'
 
 const router = createRouter({
@@ -35,10 +42,50 @@ const router = createRouter({
       name: 'rundown',
       component: RundownView
     },
+    {
+      path: '/athletes/:id',
+      name: 'athlete',
+      component: AthleteView
+    },
+    {
+      path: '/validation',
+      name: 'validation',
+      component: ValidationView
+    },
+    {
+      path: '/duplicates',
+      name: 'duplicates',
+      component: DataQualityView
+    },
+    {
+      path: '/results',
+      name: 'results',
+      component: ResultsView
+    },
     {
       path: '/print/rundown',
       name: 'print-rundown',
       component: RundownPrintView
+    },
+    {
+      path: '/print/results',
+      name: 'print-results',
+      component: ResultsPrintView
+    },
+    {
+      path: '/print/judge-sheets',
+      name: 'print-judge-sheets',
+      component: JudgeSheetPrintView
+    },
+    {
+      path: '/print/team/:name',
+      name: 'print-team',
+      component: TeamPacketPrintView
+    },
+    {
+      path: '/print/teams',
+      name: 'print-teams',
+      component: TeamPacketPrintView
     }
   ]
 })
@@ -0,0 +1,75 @@
+import type { Athlete, Participant } from '@/config/defaults'
+
+export function normaliseAthleteName(name: string) {
+    return name.trim().toUpperCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Splits a free-text entry name ("ANN LEE\nBOB TAN", "ANN, BOB") into individual names.
+ * Fragments of one character are treated as noise.
+ */
+export function splitEntryNames(name: string): string[] {
+    return name.split(/[\r\n,]+/)
+        .map(normaliseAthleteName)
+        .filter(n => n.length > 1)
+}
+
+function athleteKey(name: string, team: string) {
+    return `${normaliseAthleteName(name)}|${normaliseAthleteName(team || 'INDEPENDENT')}`
+}
+
+/**
+ * Finds the athlete a name refers to. A federation ID wins when both sides have one;
+ * otherwise athletes match on name within the same team.
+ */
+export function findAthlete(athletes: Athlete[], name: string, team: string, federationId?: string): Athlete | undefined {
+    if (federationId) {
+        const byId = athletes.find(a => a.federationId === federationId)
+        if (byId) return byId
+    }
+    const key = athleteKey(name, team)
+    return athletes.find(a => athleteKey(a.name, a.team) === key && (!federationId || !a.federationId))
+}
+
+export function createAthlete(name: string, team: string, details: Partial<Omit<Athlete, 'id' | 'name' | 'team'>> = {}): Athlete {
+    return {
+        id: crypto.randomUUID(),
+        name: normaliseAthleteName(name),
+        team: normaliseAthleteName(team || 'INDEPENDENT'),
+        ...details
+    }
+}
+
+/**
+ * Gives every participant without `athleteIds` its athletes, matching existing athletes
+ * by name and team and creating the rest. Returns new arrays; the inputs are left untouched.
+ */
+export function linkParticipantAthletes(participants: Participant[], athletes: Athlete[]): { participants: Participant[], athletes: Athlete[] } {
+    const allAthletes = [...athletes]
+    const linked = participants.map(p => {
+        if (p.athleteIds && p.athleteIds.length > 0) return p
+        const athleteIds = splitEntryNames(p.name).map(name => {
+            let athlete = findAthlete(allAthletes, name, p.team)
+            if (!athlete) {
+                athlete = createAthlete(name, p.team)
+                allAthletes.push(athlete)
+            }
+            return athlete.id
+        })
+        return { ...p, athleteIds }
+    })
+    return { participants: linked, athletes: allAthletes }
+}
+
+/**
+ * Counts the people behind a set of entries: linked athletes by id,
+ * plus unlinked entries by name.
+ */
+export function countAthletes(participants: Participant[]) {
+    const keys = new Set<string>()
+    participants.forEach(p => {
+        if (p.athleteIds && p.athleteIds.length > 0) p.athleteIds.forEach(id => keys.add(id))
+        else splitEntryNames(p.name).forEach(n => keys.add(`name:${n}`))
+    })
+    return keys.size
+}
@@ -0,0 +1,154 @@
+import { DEFAULT_SCORING, DEFAULT_LIVE_STATE } from '@/config/defaults'
+import type { CompetitionData, CompetitionMeta } from '@/config/defaults'
+import { linkParticipantAthletes } from '@/services/athleteService'
+import { legacyEntryCodes, lockLegacyEntryNumbers, findChangedEntryCodes } from '@/services/entryCodeService'
+
+export const BUNDLE_FORMAT = 'offline-namelist/competition'
+export const BUNDLE_SCHEMA_VERSION = 4
+
+export interface CompetitionBundle {
+    format: typeof BUNDLE_FORMAT
+    schemaVersion: number
+    exportedAt: string
+    competition: CompetitionMeta
+    data: CompetitionData
+}
+
+export class BundleError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'BundleError'
+    }
+}
+
+/**
+ * Upgrades older bundles one schema version at a time.
+ * Key = version being upgraded FROM.
+ */
+const BUNDLE_MIGRATIONS: Record<number, (bundle: any) => any> = {
+    // v1 had no athlete records; derive them from the entry names
+    1: bundle => {
+        const participants = Array.isArray(bundle.data?.participants) ? bundle.data.participants : []
+        return { ...bundle, data: { ...bundle.data, ...linkParticipantAthletes(participants, []) } }
+    },
+    // v2 derived entry codes from list position; lock in the codes as they read when exported
+    2: bundle => {
+        const participants = Array.isArray(bundle.data?.participants) ? bundle.data.participants : []
+        const events = Array.isArray(bundle.data?.events) ? bundle.data.events : []
+        const divisions = Array.isArray(bundle.data?.divisions) ? bundle.data.divisions : []
+        const entryCodes = bundle.data?.entryCodes || {}
+        const before = legacyEntryCodes(participants, events, divisions, entryCodes)
+        const numbered = lockLegacyEntryNumbers(participants, events, divisions)
+        if (findChangedEntryCodes(before, numbered, entryCodes).length > 0) {
+            throw new BundleError('The file\'s entry codes could not be carried over to this version.')
+        }
+        return { ...bundle, data: { ...bundle.data, participants: numbered } }
+    },
+    // v3 had no prefix scheme, breaks, sessions, results or competition-day log; floors could be missing too
+    3: bundle => ({
+        ...bundle,
+        data: {
+            ...bundle.data,
+            entryCodeScheme: bundle.data?.entryCodeScheme || '',
+            floors: bundle.data?.floors || [],
+            scheduleBlocks: bundle.data?.scheduleBlocks || [],
+            sessions: bundle.data?.sessions || [],
+            results: bundle.data?.results || [],
+            scoring: bundle.data?.scoring || { ...DEFAULT_SCORING },
+            live: bundle.data?.live || { ...DEFAULT_LIVE_STATE, heats: [] }
+        }
+    })
+}
+
+/**
+ * Wraps a competition's index entry and data into a portable, versioned bundle.
+ */
+export function createBundle(competition: CompetitionMeta, data: CompetitionData): CompetitionBundle {
+    return {
+        format: BUNDLE_FORMAT,
+        schemaVersion: BUNDLE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        competition: { ...competition },
+        data: JSON.parse(JSON.stringify(data))
+    }
+}
+
+/**
+ * Parses and validates a bundle file, migrating it to the current schema version.
+ * Throws BundleError with a user-facing message when the file cannot be loaded.
+ */
+export function parseBundle(text: string): CompetitionBundle {
+    let raw: any
+    try {
+        raw = JSON.parse(text)
+    } catch (e) {
+        throw new BundleError('The file is not valid JSON.')
+    }
+
+    if (!raw || raw.format !== BUNDLE_FORMAT) {
+        throw new BundleError('The file is not a competition export.')
+    }
+
+    const version = Number(raw.schemaVersion)
+    if (!Number.isInteger(version) || version < 1) {
+        throw new BundleError('The file has no valid schema version.')
+    }
+    if (version > BUNDLE_SCHEMA_VERSION) {
+        throw new BundleError(`The file was exported by a newer version of this app (schema v${version}, this app reads up to v${BUNDLE_SCHEMA_VERSION}). Please update before importing.`)
+    }
+
+    let bundle = raw
+    for (let v = version; v < BUNDLE_SCHEMA_VERSION; v++) {
+        const migrate = BUNDLE_MIGRATIONS[v]
+        if (!migrate) throw new BundleError(`No upgrade path from schema v${v}.`)
+        bundle = migrate(bundle)
+    }
+
+    const comp = bundle.competition
+    const data = bundle.data
+    if (!comp || typeof comp.id !== 'string' || typeof comp.name !== 'string') {
+        throw new BundleError('The file is missing the competition details.')
+    }
+    if (!data || !Array.isArray(data.participants) || !Array.isArray(data.events) || !Array.isArray(data.divisions)) {
+        throw new BundleError('The file is missing events, divisions or participants.')
+    }
+
+    return {
+        format: BUNDLE_FORMAT,
+        schemaVersion: BUNDLE_SCHEMA_VERSION,
+        exportedAt: bundle.exportedAt || '',
+        competition: {
+            id: comp.id,
+            name: comp.name,
+            date: comp.date || '',
+            lastModified: comp.lastModified || new Date().toISOString()
+        },
+        data: {
+            events: data.events,
+            divisions: data.divisions,
+            participants: data.participants,
+            athletes: Array.isArray(data.athletes) ? data.athletes : [],
+            entryCodes: data.entryCodes || {},
+            entryCodeScheme: data.entryCodeScheme || '',
+            eventStartTimes: data.eventStartTimes || {},
+            eventRundownConfigs: data.eventRundownConfigs || {},
+            floors: data.floors || [],
+            scheduleBlocks: Array.isArray(data.scheduleBlocks) ? data.scheduleBlocks : [],
+            sessions: Array.isArray(data.sessions) ? data.sessions : [],
+            results: Array.isArray(data.results) ? data.results : [],
+            scoring: { ...DEFAULT_SCORING, ...(data.scoring || {}) },
+            live: { enabled: !!data.live?.enabled, heats: Array.isArray(data.live?.heats) ? data.live.heats : [] },
+            competitionTitle: data.competitionTitle || comp.name,
+            competitionDate: data.competitionDate || comp.date || ''
+        }
+    }
+}
+
+/**
+ * Builds a safe download file name for a bundle, e.g. "National_Champs_2026-03-01.competition.json".
+ */
+export function getBundleFileName(bundle: CompetitionBundle): string {
+    const base = (bundle.competition.name || 'competition').replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '')
+    const date = bundle.competition.date ? `_${bundle.competition.date}` : ''
+    return `${base || 'competition'}${date}.competition.json`
+}
@@ -0,0 +1,153 @@
+import type { Athlete } from '@/config/defaults'
+
+export type DuplicateReason = 'spacing' | 'word-order' | 'spelling' | 'federation-id' | 'other-team'
+
+export interface DuplicatePair {
+    id: string // Stable key for the pair
+    a: string // Athlete id / team name
+    b: string
+    reason: DuplicateReason
+    score: number // 0..1, higher = more likely the same
+}
+
+export const DUPLICATE_REASONS: Record<DuplicateReason, string> = {
+    'spacing': 'Same name ignoring spaces and punctuation',
+    'word-order': 'Same words in a different order',
+    'spelling': 'Similar spelling',
+    'federation-id': 'Same federation ID',
+    'other-team': 'Same name in a similar team'
+}
+
+const FUZZY_THRESHOLD = 0.85 // Minimum similarity for "similar spelling"
+
+/**
+ * Letters and digits only, uppercased: "S.M.K. ABC" and "SMK  ABC" both become "SMKABC".
+ */
+export function compactKey(value: string) {
+    return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+function sortedWordsKey(value: string) {
+    return (value || '').toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean).sort().join(' ')
+}
+
+function levenshtein(a: string, b: string) {
+    if (a === b) return 0
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i]
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j]! + 1, curr[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1))
+        }
+        prev = curr
+    }
+    return prev[b.length]!
+}
+
+/**
+ * Similarity of two names from 0 (nothing alike) to 1 (same once spacing and punctuation are ignored).
+ */
+export function nameSimilarity(a: string, b: string) {
+    const ka = compactKey(a)
+    const kb = compactKey(b)
+    const longest = Math.max(ka.length, kb.length)
+    if (longest === 0) return 0
+    return 1 - levenshtein(ka, kb) / longest
+}
+
+// Why two names look alike, or null if they don't
+function compareNames(a: string, b: string): { reason: DuplicateReason, score: number } | null {
+    if (compactKey(a) === compactKey(b)) return { reason: 'spacing', score: 1 }
+    if (sortedWordsKey(a) === sortedWordsKey(b)) return { reason: 'word-order', score: 0.95 }
+    const score = nameSimilarity(a, b)
+    return score >= FUZZY_THRESHOLD ? { reason: 'spelling', score } : null
+}
+
+function pairId(a: string, b: string) {
+    return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+function isDuplicateTeam(a: string, b: string) {
+    return compactKey(a) === compactKey(b) || nameSimilarity(a, b) >= FUZZY_THRESHOLD
+}
+
+/**
+ * Pairs of athletes that are probably the same person: a shared federation ID, or
+ * alike names within the same (or a near-identical) team. Athletes with different
+ * federation IDs are never paired. Most likely pairs first.
+ */
+export function findDuplicateAthletes(athletes: Athlete[]): DuplicatePair[] {
+    const pairs = new Map<string, DuplicatePair>()
+    const add = (x: Athlete, y: Athlete, reason: DuplicateReason, score: number) => {
+        const id = pairId(x.id, y.id)
+        const known = pairs.get(id)
+        if (!known || known.score < score) pairs.set(id, { id, a: x.id, b: y.id, reason, score })
+    }
+    const conflictingIds = (x: Athlete, y: Athlete) => !!x.federationId && !!y.federationId && x.federationId !== y.federationId
+
+    // Same federation ID
+    const byFederationId = new Map<string, Athlete[]>()
+    athletes.forEach(a => {
+        if (!a.federationId) return
+        const list = byFederationId.get(a.federationId)
+        if (list) list.push(a)
+        else byFederationId.set(a.federationId, [a])
+    })
+    byFederationId.forEach(list => {
+        for (let i = 0; i < list.length; i++) for (let j = i + 1; j < list.length; j++) add(list[i]!, list[j]!, 'federation-id', 1)
+    })
+
+    // Fuzzy names are only compared within a team, which keeps this fast on large namelists
+    const byTeam = new Map<string, Athlete[]>()
+    athletes.forEach(a => {
+        const key = compactKey(a.team)
+        const list = byTeam.get(key)
+        if (list) list.push(a)
+        else byTeam.set(key, [a])
+    })
+    byTeam.forEach(list => {
+        for (let i = 0; i < list.length; i++) {
+            for (let j = i + 1; j < list.length; j++) {
+                const x = list[i]!, y = list[j]!
+                if (conflictingIds(x, y)) continue
+                const match = compareNames(x.name, y.name)
+                if (match) add(x, y, match.reason, match.score)
+            }
+        }
+    })
+
+    // Identical names across teams whose names are alike ("SMK ABC" vs "SMK ABD")
+    const byName = new Map<string, Athlete[]>()
+    athletes.forEach(a => {
+        const key = compactKey(a.name)
+        const list = byName.get(key)
+        if (list) list.push(a)
+        else byName.set(key, [a])
+    })
+    byName.forEach(list => {
+        for (let i = 0; i < list.length; i++) {
+            for (let j = i + 1; j < list.length; j++) {
+                const x = list[i]!, y = list[j]!
+                if (compactKey(x.team) === compactKey(y.team) || conflictingIds(x, y)) continue
+                if (isDuplicateTeam(x.team, y.team)) add(x, y, 'other-team', 0.9)
+            }
+        }
+    })
+
+    return Array.from(pairs.values()).sort((p, q) => q.score - p.score)
+}
+
+/**
+ * Pairs of team names that are probably the same team, most likely first.
+ */
+export function findDuplicateTeams(teamNames: string[]): DuplicatePair[] {
+    const pairs: DuplicatePair[] = []
+    for (let i = 0; i < teamNames.length; i++) {
+        for (let j = i + 1; j < teamNames.length; j++) {
+            const a = teamNames[i]!, b = teamNames[j]!
+            const match = compareNames(a, b)
+            if (match) pairs.push({ id: pairId(a, b), a, b, ...match })
+        }
+    }
+    return pairs.sort((p, q) => q.score - p.score)
+}
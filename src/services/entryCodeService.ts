@@ -0,0 +1,263 @@
+import type { Participant, EventConfig, DivisionConfig } from '@/config/defaults'
+
+export interface RenumberChange {
+    entryKey: string // groupId, or the participant id for single entries
+    participantIds: string[]
+    from?: number
+    to: number
+}
+
+export const DEFAULT_ENTRY_CODE_SCHEME = '{eventIndex}{divisionPrefix}'
+
+// Placeholders understood by prefix schemes
+export const ENTRY_CODE_SCHEME_TOKENS: { token: string, description: string }[] = [
+    { token: '{eventIndex}', description: 'Position of the event in the event list (1, 2, 3…)' },
+    { token: '{eventCode}', description: 'Event code, e.g. SRSS' },
+    { token: '{divisionPrefix}', description: 'The division\'s own prefix letter' },
+    { token: '{divisionIndex}', description: 'Position of the division in the division list (1, 2, 3…)' }
+]
+
+/**
+ * Formats an entry code like "A007". Empty prefix or no number = no code ('-').
+ */
+export function formatEntryCode(prefix: string | undefined, entryNumber: number | undefined): string {
+    if (!prefix || !entryNumber) return '-'
+    return `${prefix}${String(entryNumber).padStart(3, '0')}`
+}
+
+function divisionKey(p: Participant) {
+    return `${p.eventCode}|${p.division}`
+}
+
+// Entries of one event/division in list order; group members share an entry
+function collectEntries(list: Participant[]): Map<string, Participant[]> {
+    const entries = new Map<string, Participant[]>()
+    list.forEach(p => {
+        const key = p.groupId || p.id
+        const members = entries.get(key)
+        if (members) members.push(p)
+        else entries.set(key, [p])
+    })
+    return entries
+}
+
+/**
+ * Gives every entry without a stored number the next number after the highest one used
+ * in its event/division. Numbers already assigned never move, so codes stay locked once handed out,
+ * even when two entries share one (see findEntryNumberClashes; only renumbering resolves that).
+ * All members of a group end up sharing one number.
+ * Returns the same array when nothing changed.
+ */
+export function assignEntryNumbers(participants: Participant[]): Participant[] {
+    const byDivision = new Map<string, Participant[]>()
+    participants.forEach(p => {
+        const list = byDivision.get(divisionKey(p))
+        if (list) list.push(p)
+        else byDivision.set(divisionKey(p), [p])
+    })
+
+    const numbers = new Map<string, number>() // participant id -> number
+    byDivision.forEach(list => {
+        const entries = collectEntries(list)
+        let highest = 0
+        const pending: Participant[][] = []
+
+        entries.forEach(members => {
+            const own = members.map(m => m.entryNumber).find(n => n !== undefined && n > 0)
+            if (own === undefined) {
+                pending.push(members)
+                return
+            }
+            highest = Math.max(highest, own)
+            members.forEach(m => numbers.set(m.id, own))
+        })
+
+        let next = highest + 1
+        pending.forEach(members => {
+            members.forEach(m => numbers.set(m.id, next))
+            next++
+        })
+    })
+
+    let changed = false
+    const result = participants.map(p => {
+        const n = numbers.get(p.id)
+        if (n === p.entryNumber) return p
+        changed = true
+        return { ...p, entryNumber: n }
+    })
+    return changed ? result : participants
+}
+
+// Participants of every offered event/division, in list order, keyed "EventCode|DivisionName"
+function offeredDivisionLists(participants: Participant[], events: EventConfig[], divisions: DivisionConfig[]) {
+    const lists = new Map<string, Participant[]>()
+    events.forEach(evt => {
+        divisions.forEach(div => {
+            if (!isDivisionOffered(evt, div.name)) return
+            lists.set(`${evt.code}|${div.name}`, participants.filter(p => p.eventCode === evt.code && p.division === div.name))
+        })
+    })
+    return lists
+}
+
+/**
+ * Entry codes as schema v2 and earlier showed them, worked out from list position:
+ * a single entry took its row number in the event/division (every group member counting
+ * as a row), a group took the number of entries up to and including its first member.
+ * Divisions an event doesn't offer had no code. Keyed by participant id.
+ */
+export function legacyEntryCodes(
+    participants: Participant[],
+    events: EventConfig[],
+    divisions: DivisionConfig[],
+    entryCodes: Record<string, string>
+): Map<string, string> {
+    const codes = new Map<string, string>()
+    participants.forEach(p => codes.set(p.id, '-'))
+    offeredDivisionLists(participants, events, divisions).forEach((list, key) => {
+        const prefix = entryCodes[key] || ''
+        list.forEach(p => {
+            let index = p.groupId ? -1 : list.indexOf(p) + 1
+            if (p.groupId) {
+                let counter = 0
+                const processed = new Set<string>()
+                for (const item of list) {
+                    if (item.groupId && !processed.has(item.groupId)) { processed.add(item.groupId); counter++ }
+                    else if (!item.groupId) counter++
+                    if (item.id === p.id) { index = counter; break }
+                }
+            }
+            codes.set(p.id, prefix ? `${prefix}${String(index).padStart(3, '0')}` : '-')
+        })
+    })
+    return codes
+}
+
+/**
+ * Stores the numbers behind legacyEntryCodes() so upgraded competitions keep the codes
+ * they were printed with, including any clashes the old numbering produced.
+ * Entries in divisions their event doesn't offer are left for assignEntryNumbers().
+ */
+export function lockLegacyEntryNumbers(participants: Participant[], events: EventConfig[], divisions: DivisionConfig[]): Participant[] {
+    const numbers = new Map<string, number>()
+    offeredDivisionLists(participants, events, divisions).forEach(list => {
+        let counter = 0
+        const groupNumbers = new Map<string, number>()
+        list.forEach((p, i) => {
+            if (!p.groupId) {
+                counter++
+                numbers.set(p.id, i + 1)
+                return
+            }
+            if (!groupNumbers.has(p.groupId)) groupNumbers.set(p.groupId, ++counter)
+            numbers.set(p.id, groupNumbers.get(p.groupId)!)
+        })
+    })
+    return participants.map(p => numbers.has(p.id) ? { ...p, entryNumber: numbers.get(p.id) } : p)
+}
+
+/**
+ * Ids of participants whose code would read differently after an upgrade than it did before.
+ */
+export function findChangedEntryCodes(
+    before: Map<string, string>,
+    participants: Participant[],
+    entryCodes: Record<string, string>
+): string[] {
+    return participants
+        .filter(p => before.get(p.id) !== formatEntryCode(entryCodes[divisionKey(p)], p.entryNumber))
+        .map(p => p.id)
+}
+
+export interface EntryNumberClash {
+    eventCode: string
+    division: string
+    entryNumber: number
+    entryKeys: string[]
+}
+
+/**
+ * Numbers held by more than one entry of an event/division, e.g. carried over from the
+ * position-based codes of older versions. They print as the same code until renumbered.
+ */
+export function findEntryNumberClashes(participants: Participant[]): EntryNumberClash[] {
+    const byNumber = new Map<string, EntryNumberClash>()
+    collectEntries(participants).forEach((members, entryKey) => {
+        const first = members[0]!
+        if (!first.entryNumber) return
+        const key = `${divisionKey(first)}|${first.entryNumber}`
+        const clash = byNumber.get(key)
+        if (clash) clash.entryKeys.push(entryKey)
+        else byNumber.set(key, { eventCode: first.eventCode, division: first.division, entryNumber: first.entryNumber, entryKeys: [entryKey] })
+    })
+    return Array.from(byNumber.values()).filter(c => c.entryKeys.length > 1)
+}
+
+/**
+ * Closes the gaps in one event/division: entries keep their relative order
+ * (by current number, unnumbered last) and are numbered again from 1.
+ * Only entries whose number would change are returned.
+ */
+export function planRenumber(participants: Participant[], eventCode: string, division: string): RenumberChange[] {
+    const list = participants.filter(p => p.eventCode === eventCode && p.division === division)
+    const entries = Array.from(collectEntries(list).entries()).map(([entryKey, members]) => ({
+        entryKey,
+        members,
+        from: members.find(m => m.entryNumber)?.entryNumber
+    }))
+    entries.sort((a, b) => (a.from ?? Number.MAX_SAFE_INTEGER) - (b.from ?? Number.MAX_SAFE_INTEGER))
+
+    return entries
+        .map((e, i) => ({ entryKey: e.entryKey, participantIds: e.members.map(m => m.id), from: e.from, to: i + 1 }))
+        .filter(c => c.from !== c.to)
+}
+
+function isDivisionOffered(evt: EventConfig, divisionName: string) {
+    return !evt.allowedDivisions?.length || evt.allowedDivisions.includes(divisionName)
+}
+
+/**
+ * Fills a prefix scheme for one event/division. Indexes are 0-based positions in the configured lists.
+ */
+export function renderPrefixScheme(scheme: string, evt: EventConfig, eventIndex: number, div: DivisionConfig, divisionIndex: number): string {
+    return scheme
+        .replace(/\{eventIndex\}/g, String(eventIndex + 1))
+        .replace(/\{eventCode\}/g, evt.code)
+        .replace(/\{divisionPrefix\}/g, div.prefix || '')
+        .replace(/\{divisionIndex\}/g, String(divisionIndex + 1))
+        .trim()
+        .toUpperCase()
+}
+
+/**
+ * Prefixes for every event/division pair the events offer, keyed "EventCode|DivisionName".
+ */
+export function generateEntryCodes(scheme: string, events: EventConfig[], divisions: DivisionConfig[]): Record<string, string> {
+    const codes: Record<string, string> = {}
+    events.forEach((evt, ei) => {
+        divisions.forEach((div, di) => {
+            if (isDivisionOffered(evt, div.name)) codes[`${evt.code}|${div.name}`] = renderPrefixScheme(scheme, evt, ei, div, di)
+        })
+    })
+    return codes
+}
+
+/**
+ * Prefixes used by more than one offered event/division pair (their codes would collide).
+ * Maps each such prefix to the "EventCode|DivisionName" keys sharing it.
+ */
+export function findDuplicatePrefixes(entryCodes: Record<string, string>, events: EventConfig[], divisions: DivisionConfig[]): Record<string, string[]> {
+    const byPrefix: Record<string, string[]> = {}
+    events.forEach(evt => {
+        divisions.forEach(div => {
+            if (!isDivisionOffered(evt, div.name)) return
+            const key = `${evt.code}|${div.name}`
+            const prefix = entryCodes[key]
+            if (!prefix) return
+            if (!byPrefix[prefix]) byPrefix[prefix] = []
+            byPrefix[prefix].push(key)
+        })
+    })
+    return Object.fromEntries(Object.entries(byPrefix).filter(([, keys]) => keys.length > 1))
+}
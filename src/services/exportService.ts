@@ -0,0 +1,170 @@
+import * as XLSX from 'xlsx'
+import type { Athlete, DivisionConfig, EventConfig, FloorConfig, Participant, SessionConfig } from '@/config/defaults'
+import { DEFAULT_FLOOR_ID } from '@/config/defaults'
+import { formatEntryCode } from '@/services/entryCodeService'
+import { ENTRY_STATUS_LABELS, formatTimeOfDay, describeSession } from '@/services/rundownService'
+import type { TimelineHeat } from '@/services/rundownService'
+
+export const RUNDOWN_SHEET_NAME = 'Rundown'
+export const TEAM_SHEET_NAME = 'By Team'
+
+/**
+ * The rundown and team sheets repeat the namelist sheets' entries in another order,
+ * so the importer leaves them unticked by default.
+ */
+export function isExportViewSheet(sheetName: string) {
+    return sheetName === RUNDOWN_SHEET_NAME || sheetName === TEAM_SHEET_NAME
+}
+
+export interface WorkbookSchedule {
+    floors: FloorConfig[]
+    sessions: SessionConfig[]
+    heatTime: (floorId: string, heat: number) => TimelineHeat | undefined
+}
+
+interface ExportEntry {
+    code: string
+    members: Participant[]
+    time?: TimelineHeat
+}
+
+// Entry-level columns are written on the first member row and merged down the entry,
+// which is how the importer recognises pairs and teams (it reads the division merge)
+interface ExportColumn {
+    header: string
+    width: number
+    entryLevel: boolean
+    value: (entry: ExportEntry, member: Participant) => string | number
+}
+
+function entrySheet(entries: ExportEntry[], columns: ExportColumn[]): XLSX.WorkSheet {
+    const rows: (string | number)[][] = [columns.map(c => c.header)]
+    const merges: XLSX.Range[] = []
+    entries.forEach(entry => {
+        const first = rows.length
+        entry.members.forEach((member, i) => {
+            rows.push(columns.map(c => c.entryLevel && i > 0 ? '' : c.value(entry, member)))
+        })
+        if (entry.members.length < 2) return
+        columns.forEach((c, col) => {
+            if (c.entryLevel) merges.push({ s: { r: first, c: col }, e: { r: rows.length - 1, c: col } })
+        })
+    })
+    const ws = XLSX.utils.aoa_to_sheet(rows)
+    ws['!merges'] = merges
+    ws['!cols'] = columns.map(c => ({ wch: c.width }))
+    return ws
+}
+
+// Sheet names are limited to 31 characters and may not contain \ / ? * [ ] :
+function uniqueSheetName(name: string, used: Set<string>) {
+    const base = name.replace(/[\\/?*[\]:]/g, '-').trim().slice(0, 31) || 'Sheet'
+    let candidate = base
+    for (let n = 2; used.has(candidate.toUpperCase()); n++) candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`
+    used.add(candidate.toUpperCase())
+    return candidate
+}
+
+/**
+ * The namelist as a workbook: one sheet per event and division in the importer's layout
+ * (one athlete per row, group entries merged), then the full rundown and every team's
+ * entries for reading. Exported namelist sheets can be edited and imported again.
+ */
+export function buildCompetitionWorkbook(
+    participants: Participant[],
+    athletesById: Map<string, Athlete>,
+    events: EventConfig[],
+    divisions: DivisionConfig[],
+    entryCodePrefixes: Record<string, string>, // "EventCode|DivisionName" -> prefix
+    schedule: WorkbookSchedule
+): XLSX.WorkBook {
+    const byKey = new Map<string, ExportEntry>()
+    participants.forEach(p => {
+        const key = p.groupId || p.id
+        const entry = byKey.get(key)
+        if (entry) {
+            entry.members.push(p)
+            return
+        }
+        byKey.set(key, {
+            code: formatEntryCode(entryCodePrefixes[`${p.eventCode}|${p.division}`], p.entryNumber),
+            members: [p],
+            time: p.heat !== undefined ? schedule.heatTime(p.floorId || DEFAULT_FLOOR_ID, p.heat) : undefined
+        })
+    })
+    const entries = Array.from(byKey.values())
+
+    const indexIn = <T>(list: T[], match: (item: T) => boolean) => {
+        const idx = list.findIndex(match)
+        return idx === -1 ? list.length : idx
+    }
+    const eventIndex = (code: string) => indexIn(events, e => e.code === code)
+    const divisionIndex = (name: string) => indexIn(divisions, d => d.name === name)
+    const floorIndex = (floorId?: string) => indexIn(schedule.floors, f => f.id === (floorId || DEFAULT_FLOOR_ID))
+    const byTime = (a: ExportEntry, b: ExportEntry) => {
+        if (a.time && b.time) return a.time.day - b.time.day || a.time.start - b.time.start ||
+            floorIndex(a.members[0]!.floorId) - floorIndex(b.members[0]!.floorId) || (a.members[0]!.station ?? 0) - (b.members[0]!.station ?? 0)
+        if (a.time || b.time) return a.time ? -1 : 1
+        return eventIndex(a.members[0]!.eventCode) - eventIndex(b.members[0]!.eventCode) || a.code.localeCompare(b.code)
+    }
+
+    const athleteOf = (p: Participant) => p.athleteIds?.[0] ? athletesById.get(p.athleteIds[0]) : undefined
+    const column = (header: string, width: number, entryLevel: boolean, value: ExportColumn['value']): ExportColumn => ({ header, width, entryLevel, value })
+    const status = column('Status', 10, true, e => {
+        const s = e.members[0]!.status
+        return s && s !== 'active' ? ENTRY_STATUS_LABELS[s] : ''
+    })
+    const entryCode = column('Entry', 8, true, e => e.code)
+    const eventCode = column('Event Code', 10, true, e => e.members[0]!.eventCode)
+    const division = column('Division', 16, true, e => e.members[0]!.division)
+    const team = column('Team', 28, true, e => e.members[0]!.team)
+    const name = column('Name', 28, false, (_, m) => m.name)
+    const scheduleColumns = [
+        ...(schedule.floors.length > 0 ? [column('Floor', 12, true, e => schedule.floors.find(f => f.id === (e.members[0]!.floorId || DEFAULT_FLOOR_ID))?.name || '')] : []),
+        ...(schedule.sessions.length > 0 ? [column('Session', 20, true, e => {
+            const session = schedule.sessions.find(s => s.id === e.time?.sessionId)
+            return session ? describeSession(session) : ''
+        })] : []),
+        column('Time', 8, true, e => e.time ? formatTimeOfDay(e.time.start, e.time.day) : ''),
+        column('Heat', 6, true, e => e.members[0]!.heat ?? ''),
+        column('Station', 8, true, e => e.members[0]!.station ?? '')
+    ]
+
+    const wb = XLSX.utils.book_new()
+    const used = new Set([RUNDOWN_SHEET_NAME, TEAM_SHEET_NAME].map(n => n.toUpperCase()))
+
+    // 1. Namelist, one sheet per event and division
+    const namelistColumns = [
+        entryCode, name, team, eventCode, division,
+        column('Gender', 8, false, (_, m) => athleteOf(m)?.gender || ''),
+        column('Date of Birth', 12, false, (_, m) => athleteOf(m)?.dateOfBirth || ''),
+        column('Federation ID', 14, false, (_, m) => athleteOf(m)?.federationId || ''),
+        status
+    ]
+    const sheets = new Map<string, ExportEntry[]>()
+    entries.forEach(e => {
+        const key = `${e.members[0]!.eventCode}|${e.members[0]!.division}`
+        if (!sheets.has(key)) sheets.set(key, [])
+        sheets.get(key)!.push(e)
+    })
+    Array.from(sheets.entries())
+        .sort(([a], [b]) => {
+            const [eventA = '', divA = ''] = a.split('|')
+            const [eventB = '', divB = ''] = b.split('|')
+            return eventIndex(eventA) - eventIndex(eventB) || divisionIndex(divA) - divisionIndex(divB) || a.localeCompare(b)
+        })
+        .forEach(([key, list]) => {
+            list.sort((a, b) => (a.members[0]!.entryNumber ?? Infinity) - (b.members[0]!.entryNumber ?? Infinity) || a.members[0]!.name.localeCompare(b.members[0]!.name))
+            XLSX.utils.book_append_sheet(wb, entrySheet(list, namelistColumns), uniqueSheetName(key.replace('|', ' '), used))
+        })
+
+    // 2. Rundown, scheduled entries in running order
+    const scheduled = entries.filter(e => e.members[0]!.heat !== undefined).sort(byTime)
+    XLSX.utils.book_append_sheet(wb, entrySheet(scheduled, [...scheduleColumns, entryCode, eventCode, division, name, team, status]), RUNDOWN_SHEET_NAME)
+
+    // 3. Every team's entries, in running order
+    const byTeam = [...entries].sort((a, b) => a.members[0]!.team.localeCompare(b.members[0]!.team) || byTime(a, b))
+    XLSX.utils.book_append_sheet(wb, entrySheet(byTeam, [team, entryCode, eventCode, division, name, ...scheduleColumns, status]), TEAM_SHEET_NAME)
+
+    return wb
+}
@@ -0,0 +1,538 @@
+import * as XLSX from 'xlsx'
+import type { Participant, Athlete, DivisionConfig, Gender } from '@/config/defaults'
+import { findAthlete, createAthlete } from '@/services/athleteService'
+
+export type ImportField = 'name' | 'member' | 'team' | 'eventCode' | 'division' | 'gender' | 'dateOfBirth' | 'federationId'
+
+type AthleteDetails = Pick<Athlete, 'gender' | 'dateOfBirth' | 'federationId'>
+
+/** A spreadsheet row keyed by header, plus where it came from. */
+export interface ImportSourceRow {
+    __fileName: string
+    __sheetName: string
+    __sheetRowIndex: number // 0-indexed absolute sheet row
+    [header: string]: any
+}
+
+/** One sheet picked for import, already split into headers and rows. */
+export interface ImportSheet {
+    fileName: string
+    sheetName: string
+    sheetIndex: number // Position in its workbook
+    headers: string[]
+    rows: ImportSourceRow[]
+    merges: XLSX.Range[]
+    headerFound: boolean // False when no header-like row was found and row 1 was assumed
+}
+
+/**
+ * A column layout shared by one or more sheets. Sheets with identical headers
+ * share a layout, so they only need mapping once.
+ */
+export interface ImportLayout {
+    id: string // Header signature
+    headers: string[]
+    mappings: Record<string, string> // Header -> ImportField ('' = ignored)
+    eventFromSheetName: boolean // Use the sheet name as the event code when no column is mapped
+}
+
+/** A named, reusable column mapping (e.g. the federation's entry template). */
+export interface MappingProfile {
+    name: string
+    mappings: Record<string, string> // Normalised header -> ImportField
+    eventFromSheetName: boolean
+}
+
+export type ImportAction = 'add' | 'update' | 'skip'
+
+export interface FieldChange {
+    field: 'team' | 'groupId'
+    before: string
+    after: string
+}
+
+export interface ImportPlanRow {
+    rowId: string // Stable within one plan: `${fileName}#${sheetName}#${sheetRowIndex}`
+    fileName: string
+    sheetName: string
+    sheetRowIndex: number
+    action: ImportAction
+    participant: Participant | null // Values that will be written (null when skipped)
+    existing: Participant | null // Matching participant already in the competition
+    changes: FieldChange[] // Only for updates
+    reason: string // Why the row is skipped
+    flags: string[] // Imported, but worth a second look
+    athletes: Athlete[] // Athlete records this row creates or fills in details for
+    newAthlete: boolean // The entry's athlete is not in the competition yet
+}
+
+export interface ImportPlanInput {
+    sheets: ImportSheet[]
+    layouts: ImportLayout[]
+    existing: Participant[]
+    athletes: Athlete[]
+    divisions: DivisionConfig[]
+}
+
+// Lookups shared by every sheet in one plan
+interface PlanContext {
+    existingByKey: Map<string, Participant>
+    firstSeenAt: Map<string, ImportPlanRow> // Key -> first importable row with it
+    athletes: Athlete[] // Existing athletes plus those created earlier in the plan
+    divisions: DivisionConfig[]
+    plan: ImportPlanRow[]
+}
+
+const PROFILES_KEY = 'import_mapping_profiles'
+
+function normaliseHeader(header: string) {
+    return header.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export function getLayoutId(headers: string[]) {
+    return headers.map(normaliseHeader).join('|')
+}
+
+/**
+ * Splits a worksheet into a header row and data rows. The header row is the first
+ * row mentioning a name, participant or division column; otherwise row 1.
+ */
+export function parseSheet(fileName: string, sheetName: string, sheetIndex: number, ws: XLSX.WorkSheet): ImportSheet {
+    const rawData = XLSX.utils.sheet_to_json(ws, { header: 1 }) as any[][]
+    const headerIndex = rawData.findIndex(row =>
+        row.some(cell => {
+            const s = String(cell || '').toLowerCase()
+            return s.includes('name') || s.includes('participant') || s.includes('division')
+        })
+    )
+
+    const finalHeaderIndex = headerIndex !== -1 ? headerIndex : 0
+    const headers = (rawData[finalHeaderIndex] || []).map(h => String(h || '').trim())
+
+    const rows = rawData.slice(finalHeaderIndex + 1).map((row, idx) => {
+        const obj: ImportSourceRow = {
+            __sheetRowIndex: finalHeaderIndex + 1 + idx,
+            __fileName: fileName,
+            __sheetName: sheetName
+        }
+        headers.forEach((h, i) => {
+            if (h) obj[h] = row[i]
+        })
+        return obj
+    })
+
+    return {
+        fileName,
+        sheetName,
+        sheetIndex,
+        headers,
+        rows,
+        merges: (ws['!merges'] || []) as XLSX.Range[],
+        headerFound: headerIndex !== -1
+    }
+}
+
+/** Keyword guesses, used when no saved profile fits the layout. */
+export function guessMappings(headers: string[]): Record<string, string> {
+    const map: Record<string, string> = {}
+    headers.forEach(h => {
+        const lower = h.toLowerCase()
+        if (lower.includes('member')) map[h] = 'member' // "Member 1", "Member 2 Name", ...
+        else if (['birth', 'dob'].some(k => lower.includes(k))) map[h] = 'dateOfBirth'
+        else if (lower.includes('gender') || lower === 'sex') map[h] = 'gender'
+        else if (['federation', 'licence', 'license'].some(k => lower.includes(k))) map[h] = 'federationId'
+        else if (['name', 'participant', 'student', 'athlete'].some(k => lower.includes(k))) map[h] = 'name'
+        else if (['team', 'school', 'club'].some(k => lower.includes(k))) map[h] = 'team'
+        else if (['event', 'code', 'category'].some(k => lower.includes(k))) map[h] = 'eventCode'
+        else if (['division', 'age', 'group'].some(k => lower.includes(k))) map[h] = 'division'
+    })
+    return map
+}
+
+export function isLayoutMapped(layout: ImportLayout): boolean {
+    const values = Object.values(layout.mappings)
+    return (values.includes('name') || values.includes('member')) && values.includes('division') &&
+        (values.includes('eventCode') || layout.eventFromSheetName)
+}
+
+export function loadMappingProfiles(): MappingProfile[] {
+    try {
+        return JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]')
+    } catch (e) {
+        console.error("Saved mapping profiles are unreadable", e)
+        return []
+    }
+}
+
+/** Saves (or replaces, by name) a profile built from a layout's current mapping. */
+export function saveMappingProfile(name: string, layout: ImportLayout): MappingProfile[] {
+    const mappings: Record<string, string> = {}
+    Object.entries(layout.mappings).forEach(([header, field]) => {
+        if (field) mappings[normaliseHeader(header)] = field
+    })
+    const profile: MappingProfile = { name, mappings, eventFromSheetName: layout.eventFromSheetName }
+    const profiles = loadMappingProfiles().filter(p => p.name !== name)
+    profiles.push(profile)
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+    return profiles
+}
+
+export function deleteMappingProfile(name: string): MappingProfile[] {
+    const profiles = loadMappingProfiles().filter(p => p.name !== name)
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+    return profiles
+}
+
+export function applyProfile(profile: MappingProfile, headers: string[]): Pick<ImportLayout, 'mappings' | 'eventFromSheetName'> {
+    const mappings: Record<string, string> = {}
+    headers.forEach(h => {
+        const field = profile.mappings[normaliseHeader(h)]
+        if (field) mappings[h] = field
+    })
+    return { mappings, eventFromSheetName: profile.eventFromSheetName }
+}
+
+/**
+ * Picks the saved profile that maps the most of these headers while still
+ * producing a usable mapping. Returns null if none fits.
+ */
+export function findBestProfile(profiles: MappingProfile[], headers: string[]): MappingProfile | null {
+    let best: MappingProfile | null = null
+    let bestScore = 0
+    profiles.forEach(profile => {
+        const applied = applyProfile(profile, headers)
+        if (!isLayoutMapped({ id: '', headers, ...applied })) return
+        const score = Object.keys(applied.mappings).length
+        if (score > bestScore) {
+            best = profile
+            bestScore = score
+        }
+    })
+    return best
+}
+
+export type ImportRowStatus = 'add' | 'update' | 'skip' | 'flag'
+
+export function getRowStatus(row: ImportPlanRow): ImportRowStatus {
+    if (row.action === 'skip') return 'skip'
+    if (row.flags.length > 0) return 'flag'
+    return row.action
+}
+
+function matchKey(p: Pick<Participant, 'name' | 'eventCode' | 'division'>) {
+    return `${p.name.toLowerCase()}|${p.eventCode}|${p.division}`
+}
+
+/**
+ * Works out what importing the sheets would do, without touching the store.
+ * Merged division cells and rows with several member columns become team groups
+ * (groupId), one participant per member. A participant matching
+ * an existing one on name + event + division becomes an update of that record;
+ * a group whose members are exactly an existing group keeps that group's id.
+ */
+export function buildImportPlan(input: ImportPlanInput): ImportPlanRow[] {
+    const { sheets, layouts, existing, divisions } = input
+    const ctx: PlanContext = {
+        existingByKey: new Map(),
+        firstSeenAt: new Map(),
+        athletes: [...input.athletes],
+        divisions,
+        plan: []
+    }
+    existing.forEach(p => {
+        const key = matchKey(p)
+        if (!ctx.existingByKey.has(key)) ctx.existingByKey.set(key, p)
+    })
+
+    sheets.forEach(sheet => {
+        const layout = layouts.find(l => l.id === getLayoutId(sheet.headers))
+        if (!layout) return
+        planSheet(sheet, layout, ctx)
+    })
+
+    keepExistingGroupIds(ctx.plan, existing)
+    return ctx.plan
+}
+
+// Results, locked heats and live times are keyed by group id, so re-importing
+// an unchanged pair or team must not give it a new one
+function keepExistingGroupIds(plan: ImportPlanRow[], existing: Participant[]) {
+    const groupSizes = new Map<string, number>()
+    existing.forEach(p => {
+        if (p.groupId) groupSizes.set(p.groupId, (groupSizes.get(p.groupId) || 0) + 1)
+    })
+
+    const incoming = new Map<string, ImportPlanRow[]>()
+    plan.forEach(row => {
+        const groupId = row.participant?.groupId
+        if (row.action === 'skip' || !groupId) return
+        if (!incoming.has(groupId)) incoming.set(groupId, [])
+        incoming.get(groupId)!.push(row)
+    })
+
+    incoming.forEach(rows => {
+        const existingIds = new Set(rows.map(r => r.existing?.groupId || ''))
+        const [kept = ''] = existingIds
+        const members = new Set(rows.map(r => r.existing?.id))
+        if (existingIds.size !== 1 || !kept || members.has(undefined) || members.size !== groupSizes.get(kept)) return
+        rows.forEach(row => {
+            row.participant!.groupId = kept
+            row.changes = row.changes.filter(c => c.field !== 'groupId')
+        })
+    })
+}
+
+function planSheet(sheet: ImportSheet, layout: ImportLayout, ctx: PlanContext) {
+    const { existingByKey, firstSeenAt, divisions, plan } = ctx
+    const mappings = layout.mappings
+    const hasEventColumn = Object.values(mappings).includes('eventCode')
+    const sheetEvent = !hasEventColumn && layout.eventFromSheetName ? sheet.sheetName.trim() : ''
+
+    // State for merged cell logic
+    const lastValues = {
+        eventCode: '',
+        division: '',
+        team: '',
+        groupId: ''
+    }
+
+    // Find column indices in the sheet (merges are by coordinate)
+    const divHeader = Object.keys(mappings).find(k => mappings[k] === 'division') || ''
+    const divColIdx = sheet.headers.indexOf(divHeader)
+    // First sheets keep the original group id format so re-imports still match
+    const groupPrefix = sheet.sheetIndex === 0 ? `GRP_${sheet.fileName}` : `GRP_${sheet.fileName}_${sheet.sheetName}`
+
+    sheet.rows.forEach(row => {
+        const sheetRowIndex = row.__sheetRowIndex
+
+        // 1. Extract raw values
+        let currentEvent = ''
+        let currentDivision = ''
+        let currentTeam = ''
+        const names: string[] = [] // The name column first, then any member columns, in sheet order
+        const details: AthleteDetails = {}
+
+        for (const header of sheet.headers) {
+            const field = mappings[header]
+            if (!field) continue
+            const val = row[header] ? String(row[header]).trim() : ''
+            if (field === 'eventCode') currentEvent = val
+            if (field === 'division') currentDivision = val
+            if (field === 'team') currentTeam = val
+            if (field === 'name' && val) names.unshift(val)
+            if (field === 'member' && val) names.push(val)
+            if (field === 'gender') details.gender = parseGender(val)
+            if (field === 'dateOfBirth') details.dateOfBirth = parseDateCell(row[header])
+            if (field === 'federationId' && val) details.federationId = val
+        }
+        const isBlank = names.length === 0 && !currentEvent && !currentDivision && !currentTeam
+        if (!currentEvent) currentEvent = sheetEvent
+
+        // 2. Precision Merged Cell Logic
+        // Check if the Division cell in this row is part of an EXPLICIT Excel merge in ITS sheet
+        const activeMerge = sheet.merges.find(m =>
+            sheetRowIndex >= m.s.r && sheetRowIndex <= m.e.r &&
+            divColIdx >= m.s.c && divColIdx <= m.e.c
+        )
+
+        let finalGroupId = ''
+
+        if (activeMerge) {
+            if (currentDivision) {
+                // This is the row that has the text for the merge
+                lastValues.division = currentDivision
+                lastValues.eventCode = currentEvent || lastValues.eventCode
+                lastValues.team = currentTeam || lastValues.team
+                // Create a unique groupId based on file name and top-left coordinate
+                lastValues.groupId = `${groupPrefix}_${activeMerge.s.r}_${activeMerge.s.c}`
+            }
+
+            // Use the "sticky" values for the entire merge range
+            currentDivision = currentDivision || lastValues.division
+            currentEvent = currentEvent || lastValues.eventCode
+            currentTeam = currentTeam || lastValues.team
+            finalGroupId = lastValues.groupId
+        } else {
+            // Individual entry: reset sticky values so they don't leak into unrelated rows
+            lastValues.division = currentDivision
+            lastValues.eventCode = currentEvent
+            lastValues.team = currentTeam
+        }
+
+        if (isBlank) return // Spacer rows say nothing worth reviewing
+
+        const makeRow = (memberIndex: number | null): ImportPlanRow => {
+            const planRow: ImportPlanRow = {
+                rowId: `${sheet.fileName}#${sheet.sheetName}#${sheetRowIndex}` + (memberIndex === null ? '' : `#${memberIndex}`),
+                fileName: sheet.fileName,
+                sheetName: sheet.sheetName,
+                sheetRowIndex,
+                action: 'skip',
+                participant: null,
+                existing: null,
+                changes: [],
+                reason: '',
+                flags: [],
+                athletes: [],
+                newAthlete: false
+            }
+            plan.push(planRow)
+            return planRow
+        }
+
+        const finalEvent = (currentEvent || lastValues.eventCode).toUpperCase()
+        const finalDivision = currentDivision || lastValues.division
+        const finalTeam = (currentTeam || lastValues.team || 'INDEPENDENT').toUpperCase()
+
+        const skipReason = names.length === 0 ? 'No name'
+            : !finalEvent ? 'Missing event code'
+            : !finalDivision ? 'Missing division'
+            : ''
+        if (skipReason) {
+            makeRow(null).reason = skipReason
+            return
+        }
+
+        // Several members on one row form their own group, unless a merge already groups the row
+        if (names.length > 1 && !finalGroupId) finalGroupId = `${groupPrefix}_R${sheetRowIndex}`
+
+        const matchedDiv = divisions.find(d => d.name.toUpperCase() === finalDivision.toUpperCase())
+
+        names.forEach((name, memberIndex) => {
+            const planRow = makeRow(names.length > 1 ? memberIndex : null)
+            if (!matchedDiv) planRow.flags.push(`Division "${finalDivision}" is not in the configuration`)
+
+            // Per-athlete columns only make sense when the row is one person
+            const athlete = resolveAthlete(ctx, planRow, name, finalTeam, names.length === 1 ? details : {})
+
+            const incoming: Participant = {
+                id: crypto.randomUUID(),
+                name: name.toUpperCase(),
+                athleteIds: [athlete.id],
+                eventCode: finalEvent,
+                division: matchedDiv ? matchedDiv.name : finalDivision,
+                team: finalTeam,
+                groupId: finalGroupId,
+                notes: ''
+            }
+            const key = matchKey(incoming)
+
+            const earlier = firstSeenAt.get(key)
+            if (earlier) {
+                planRow.flags.push(`Same entry as ${earlier.fileName} / ${earlier.sheetName} row ${earlier.sheetRowIndex + 1}; this row wins`)
+            } else {
+                firstSeenAt.set(key, planRow)
+            }
+
+            const match = existingByKey.get(key)
+            if (match) {
+                planRow.action = 'update'
+                planRow.existing = match
+                planRow.participant = {
+                    ...match,
+                    team: incoming.team,
+                    groupId: incoming.groupId,
+                    athleteIds: match.athleteIds?.length ? match.athleteIds : incoming.athleteIds
+                }
+                if (match.team !== incoming.team) planRow.changes.push({ field: 'team', before: match.team, after: incoming.team })
+                if ((match.groupId || '') !== finalGroupId) planRow.changes.push({ field: 'groupId', before: match.groupId || '', after: finalGroupId })
+            } else {
+                planRow.action = 'add'
+                planRow.participant = incoming
+            }
+        })
+    })
+}
+
+// Matches the name to an athlete (or creates one), filling in any details the athlete is missing
+function resolveAthlete(ctx: PlanContext, planRow: ImportPlanRow, name: string, team: string, details: AthleteDetails): Athlete {
+    const found = findAthlete(ctx.athletes, name, team, details.federationId)
+    if (!found) {
+        const created = createAthlete(name, team, stripEmpty(details))
+        ctx.athletes.push(created)
+        planRow.athletes.push(created)
+        planRow.newAthlete = true
+        return created
+    }
+
+    if (details.federationId && found.federationId === details.federationId && found.name !== name.toUpperCase()) {
+        planRow.flags.push(`Federation ID ${details.federationId} belongs to ${found.name}`)
+    }
+
+    const missing = stripEmpty({
+        gender: found.gender ? undefined : details.gender,
+        dateOfBirth: found.dateOfBirth ? undefined : details.dateOfBirth,
+        federationId: found.federationId ? undefined : details.federationId
+    })
+    if (Object.keys(missing).length === 0) return found
+
+    const filled = { ...found, ...missing }
+    ctx.athletes.splice(ctx.athletes.indexOf(found), 1, filled)
+    planRow.athletes.push(filled)
+    return filled
+}
+
+function stripEmpty(details: AthleteDetails): AthleteDetails {
+    const out: AthleteDetails = {}
+    if (details.gender) out.gender = details.gender
+    if (details.dateOfBirth) out.dateOfBirth = details.dateOfBirth
+    if (details.federationId) out.federationId = details.federationId
+    return out
+}
+
+function parseGender(value: string): Gender | undefined {
+    const v = value.trim().toUpperCase()
+    if (['F', 'FEMALE', 'W', 'WOMAN', 'GIRL', 'G'].includes(v)) return 'F'
+    if (['M', 'MALE', 'MAN', 'BOY', 'B'].includes(v)) return 'M'
+    return undefined
+}
+
+/** Reads a date cell (Excel serial number, YYYY-MM-DD or DD/MM/YYYY) as YYYY-MM-DD. */
+function parseDateCell(value: unknown): string | undefined {
+    if (typeof value === 'number') {
+        const d = XLSX.SSF.parse_date_code(value)
+        if (!d) return undefined
+        return `${d.y}-${String(d.m).padStart(2, '0')}-${String(d.d).padStart(2, '0')}`
+    }
+    const text = String(value ?? '').trim()
+    let m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+    if (m) return `${m[1]}-${m[2]!.padStart(2, '0')}-${m[3]!.padStart(2, '0')}`
+    m = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+    if (m) return `${m[3]}-${m[2]!.padStart(2, '0')}-${m[1]!.padStart(2, '0')}`
+    return undefined
+}
+
+/**
+ * Turns the selected plan rows into the list to upsert. Rows describing the same
+ * entry collapse into one participant, with later rows overriding team and group.
+ */
+export function resolveImportPlan(plan: ImportPlanRow[], selected: Set<string>): { batch: Participant[], athletes: Athlete[], added: number, updated: number } {
+    const byKey = new Map<string, Participant>()
+    let added = 0
+    let updated = 0
+
+    plan.forEach(row => {
+        if (row.action === 'skip' || !row.participant || !selected.has(row.rowId)) return
+        const key = matchKey(row.participant)
+        const queued = byKey.get(key)
+        if (queued) {
+            queued.team = row.participant.team
+            queued.groupId = row.participant.groupId
+            return
+        }
+        byKey.set(key, { ...row.participant })
+        if (row.action === 'update') updated++
+        else added++
+    })
+
+    // Athlete records come from any row (an unticked row may have created an athlete a ticked row uses),
+    // but only those the imported entries refer to are kept
+    const batch = Array.from(byKey.values())
+    const referenced = new Set(batch.flatMap(p => p.athleteIds || []))
+    const athletes = new Map<string, Athlete>()
+    plan.forEach(row => row.athletes.forEach(a => {
+        if (referenced.has(a.id)) athletes.set(a.id, a)
+    }))
+
+    return { batch, athletes: Array.from(athletes.values()), added, updated }
+}
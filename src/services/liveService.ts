@@ -0,0 +1,127 @@
+import type { LiveHeatLog } from '@/config/defaults'
+import { heatKey } from '@/services/rundownService'
+import type { ScheduleTimeline, TimelineHeat } from '@/services/rundownService'
+
+export type LiveHeatState = 'upcoming' | 'running' | 'done'
+
+export interface LiveHeatProjection {
+    state: LiveHeatState
+    start: number // Actual once started, otherwise projected; minutes on the timeline's clock
+    end: number // Actual once finished, otherwise projected
+    delay: number // Minutes behind the planned start (negative = ahead)
+}
+
+export interface LiveFloorStatus {
+    floorId: string
+    currentHeat?: number // The heat running, or the last one started
+    nextHeat?: number
+    delay: number // Of the next heat to start; of the last heat's end once all have run
+    pace: number // Observed heat length over planned; 1 until a heat has finished
+}
+
+export interface LiveProjection {
+    heats: Map<string, LiveHeatProjection> // keyed by heatKey()
+    floors: LiveFloorStatus[]
+}
+
+export const LIVE_HEAT_STATE_LABELS: Record<LiveHeatState, string> = {
+    upcoming: 'Upcoming',
+    running: 'Running',
+    done: 'Done'
+}
+
+/**
+ * Minutes on the timeline's clock (day * 1440 + time of day) for a moment on the given competition day.
+ */
+export function toTimelineMinutes(date: Date, day: number): number {
+    return day * 1440 + date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60
+}
+
+/**
+ * "12 min behind", "3 min ahead" or "On schedule" for a delay in minutes.
+ */
+export function describeDelay(delay: number): string {
+    const minutes = Math.round(Math.abs(delay))
+    if (minutes === 0) return 'On schedule'
+    return `${minutes} min ${delay > 0 ? 'behind' : 'ahead'}`
+}
+
+/**
+ * Projects the rest of the day from what has happened so far, floor by floor.
+ * Remaining heats keep their planned gaps (breaks, blocks) but take as long as finished heats
+ * actually did on average, and follow on from the last heat started. The next heat can't start
+ * before `now`, and a new session or day never starts earlier than planned. A floor that
+ * hasn't started yet keeps its planned times.
+ */
+export function projectLiveTimeline(timeline: ScheduleTimeline, log: LiveHeatLog[], now: Date): LiveProjection {
+    const projection: LiveProjection = { heats: new Map(), floors: [] }
+    const logByKey = new Map(log.map(l => [heatKey(l.floorId, l.heat), l]))
+
+    const byFloor = new Map<string, TimelineHeat[]>()
+    timeline.heats.forEach(h => {
+        if (!byFloor.has(h.floorId)) byFloor.set(h.floorId, [])
+        byFloor.get(h.floorId)!.push(h)
+    })
+
+    byFloor.forEach((heats, floorId) => {
+        heats.sort((a, b) => a.start - b.start || a.heat - b.heat)
+        const actual = (h: TimelineHeat, field: 'startedAt' | 'finishedAt') => {
+            const iso = logByKey.get(heatKey(floorId, h.heat))?.[field]
+            return iso ? toTimelineMinutes(new Date(iso), h.day) : undefined
+        }
+
+        let observed = 0
+        let planned = 0
+        heats.forEach(h => {
+            const started = actual(h, 'startedAt')
+            const finished = actual(h, 'finishedAt')
+            if (started === undefined || finished === undefined || finished <= started) return
+            observed += finished - started
+            planned += h.end - h.start
+        })
+        const pace = planned > 0 ? observed / planned : 1
+        const lastStarted = heats.reduce((last, h, i) => actual(h, 'startedAt') !== undefined ? i : last, -1)
+
+        let prev: TimelineHeat | undefined
+        let prevEnd = 0
+        heats.forEach((h, i) => {
+            const followOn = prev ? prevEnd + (h.start - prev.end) : h.start
+            const newSession = !prev || prev.day !== h.day || prev.sessionId !== h.sessionId
+            let state: LiveHeatState
+            let start: number
+            let end: number
+            if (i <= lastStarted) {
+                // Heats skipped over without being started count as run on time after the one before
+                const finished = actual(h, 'finishedAt')
+                state = finished !== undefined || i < lastStarted ? 'done' : 'running'
+                start = actual(h, 'startedAt') ?? (newSession ? h.start : followOn)
+                end = finished ?? (state === 'running'
+                    ? Math.max(start + (h.end - h.start) * pace, toTimelineMinutes(now, h.day))
+                    : start + (h.end - h.start))
+            } else {
+                state = 'upcoming'
+                start = newSession ? Math.max(followOn, h.start) : followOn
+                if (lastStarted !== -1 && i === lastStarted + 1 && !newSession) start = Math.max(start, toTimelineMinutes(now, h.day))
+                if (lastStarted === -1) start = h.start
+                end = start + (h.end - h.start) * pace
+            }
+            projection.heats.set(heatKey(floorId, h.heat), { state, start, end, delay: start - h.start })
+            prev = h
+            prevEnd = end
+        })
+
+        const current = heats[lastStarted]
+        const next = heats[lastStarted + 1]
+        const last = heats[heats.length - 1]!
+        projection.floors.push({
+            floorId,
+            currentHeat: current?.heat,
+            nextHeat: next?.heat,
+            delay: next
+                ? projection.heats.get(heatKey(floorId, next.heat))!.delay
+                : projection.heats.get(heatKey(floorId, last.heat))!.end - last.end,
+            pace
+        })
+    })
+    return projection
+}
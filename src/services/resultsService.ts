@@ -0,0 +1,351 @@
+import type { Participant, EventConfig, DivisionConfig, EntryResult, EntryStatus, ScoringConfig, ScoringKind } from '@/config/defaults'
+import { DEFAULT_FLOOR_ID } from '@/config/defaults'
+import { splitEntryNames, normaliseAthleteName } from '@/services/athleteService'
+import { formatEntryCode } from '@/services/entryCodeService'
+
+export const SCORING_KIND_LABELS: Record<ScoringKind, string> = {
+    'speed': 'Speed (counted jumps)',
+    'freestyle': 'Freestyle (judged)'
+}
+
+export interface EntryScore {
+    score: number
+    tieBreak: number[] // Compared in order when scores are equal; higher wins
+    detail: string // How the score was made up, e.g. "152 − 10 (1 FS)"
+}
+
+export interface RankedEntry {
+    entryKey: string
+    code: string
+    names: string[]
+    team: string
+    athletes: { key: string, name: string }[] // Athlete id, or name and team for unlinked entries
+    status?: EntryStatus
+    result?: EntryResult
+    score: EntryScore | null // Null until the result is complete
+    place?: number // Unset = not ranked: no result yet, withdrawn or disqualified
+    points: number
+}
+
+export interface EventRanking {
+    eventCode: string
+    division: string
+    kind: ScoringKind
+    entries: RankedEntry[] // Ranked entries by place, then the rest by entry code
+}
+
+export interface TeamStanding {
+    team: string
+    points: number
+    medals: [number, number, number] // Firsts, seconds, thirds
+    place: number
+}
+
+export interface OverallStanding {
+    athleteKey: string
+    name: string
+    team: string
+    points: number
+    eventCodes: string[]
+    place: number
+}
+
+/**
+ * How an event is scored. Without an explicit setting, codes with F as their fourth letter
+ * (SRIF, SRPF, DDTF, SRIF_LEVEL 1, …) are freestyle and everything else is speed.
+ */
+export function getScoringKind(eventCode: string, events: EventConfig[]): ScoringKind {
+    const explicit = events.find(e => e.code === eventCode)?.scoring
+    if (explicit) return explicit
+    return eventCode.trim().toUpperCase()[3] === 'F' ? 'freestyle' : 'speed'
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/**
+ * Scores one result, or returns null while it is incomplete (no count yet, or a judge's score missing).
+ * Speed: the count minus the deductions for false starts and misses; ties go to fewer faults.
+ * Freestyle: the mean of the judges' scores (without the highest and lowest, if configured) minus
+ * deductions; ties go to the higher total of all judges' scores, then the higher single score.
+ */
+export function scoreResult(result: EntryResult | undefined, kind: ScoringKind, config: ScoringConfig): EntryScore | null {
+    if (!result) return null
+
+    if (kind === 'speed') {
+        if (result.count === undefined) return null
+        const falseStarts = result.falseStarts || 0
+        const misses = result.misses || 0
+        const deducted = falseStarts * config.falseStartDeduction + misses * config.missDeduction
+        const faults = [falseStarts ? `${falseStarts} FS` : '', misses ? `${misses} miss` : ''].filter(Boolean).join(', ')
+        return {
+            score: Math.max(0, result.count - deducted),
+            tieBreak: [-(falseStarts + misses)],
+            detail: faults ? `${result.count} − ${deducted} (${faults})` : String(result.count)
+        }
+    }
+
+    const scores = (result.judgeScores || []).slice(0, config.judgeCount)
+    if (scores.length < config.judgeCount || scores.some(s => s === null || s === undefined)) return null
+    const values = scores as number[]
+    const sorted = [...values].sort((a, b) => a - b)
+    const counted = config.dropHighLow && sorted.length >= 3 ? sorted.slice(1, -1) : sorted
+    const mean = counted.reduce((sum, s) => sum + s, 0) / counted.length
+    const deductions = result.deductions || 0
+    return {
+        score: round2(mean - deductions),
+        tieBreak: [round2(values.reduce((sum, s) => sum + s, 0)), sorted[sorted.length - 1]!],
+        detail: values.join(' / ') + (deductions ? ` − ${deductions}` : '')
+    }
+}
+
+function compareScores(a: EntryScore, b: EntryScore) {
+    if (a.score !== b.score) return b.score - a.score
+    for (let i = 0; i < Math.max(a.tieBreak.length, b.tieBreak.length); i++) {
+        const diff = (b.tieBreak[i] ?? 0) - (a.tieBreak[i] ?? 0)
+        if (diff !== 0) return diff
+    }
+    return 0
+}
+
+// Standard competition places (1, 2, 2, 4) over a list already sorted best first
+function assignPlaces<T>(sorted: T[], compare: (a: T, b: T) => number, setPlace: (item: T, place: number) => void) {
+    let place = 0
+    sorted.forEach((item, i) => {
+        if (i === 0 || compare(sorted[i - 1]!, item) !== 0) place = i + 1
+        setPlace(item, place)
+    })
+}
+
+function entryAthletes(members: Participant[]) {
+    return members.flatMap(p => p.athleteIds && p.athleteIds.length > 0
+        ? p.athleteIds.map(id => ({ key: id, name: p.name }))
+        : splitEntryNames(p.name).map(name => ({ key: `${name}|${normaliseAthleteName(p.team || '')}`, name })))
+}
+
+/**
+ * Rankings for every event and division with entries, in event and division order.
+ * Entries with the same score and tie-breaks share a place and each get that place's points.
+ * Scratched, DNS and DQ entries are listed without a place; results whose entry no longer
+ * exists (e.g. after joining entries) are ignored.
+ */
+export function rankResults(
+    participants: Participant[],
+    results: EntryResult[],
+    events: EventConfig[],
+    divisions: DivisionConfig[],
+    entryCodePrefixes: Record<string, string>, // "EventCode|DivisionName" -> prefix
+    config: ScoringConfig
+): EventRanking[] {
+    const resultsByKey = new Map(results.map(r => [r.entryKey, r]))
+
+    const groups = new Map<string, Participant[][]>() // "event|division" -> entries
+    const entries = new Map<string, Participant[]>()
+    participants.forEach(p => {
+        const key = p.groupId || p.id
+        const members = entries.get(key)
+        if (members) {
+            members.push(p)
+            return
+        }
+        const list = [p]
+        entries.set(key, list)
+        const groupKey = `${p.eventCode}|${p.division}`
+        if (!groups.has(groupKey)) groups.set(groupKey, [])
+        groups.get(groupKey)!.push(list)
+    })
+
+    const eventIndex = (code: string) => {
+        const idx = events.findIndex(e => e.code === code)
+        return idx === -1 ? events.length : idx
+    }
+    const divisionIndex = (name: string) => {
+        const idx = divisions.findIndex(d => d.name === name)
+        return idx === -1 ? divisions.length : idx
+    }
+
+    const rankings: EventRanking[] = Array.from(groups.entries()).map(([groupKey, list]) => {
+        const [eventCode, division] = groupKey.split('|') as [string, string]
+        const kind = getScoringKind(eventCode, events)
+        const ranked: RankedEntry[] = list.map(members => {
+            const first = members[0]!
+            const entryKey = first.groupId || first.id
+            const result = resultsByKey.get(entryKey)
+            return {
+                entryKey,
+                code: formatEntryCode(entryCodePrefixes[groupKey], first.entryNumber),
+                names: members.map(m => m.name),
+                team: first.team,
+                athletes: entryAthletes(members),
+                status: first.status,
+                result,
+                score: scoreResult(result, kind, config),
+                points: 0
+            }
+        })
+
+        const competing = ranked.filter(e => e.score && e.status !== 'scratched' && e.status !== 'dns' && e.status !== 'dq')
+        const byScore = (a: RankedEntry, b: RankedEntry) => compareScores(a.score!, b.score!)
+        competing.sort(byScore)
+        assignPlaces(competing, byScore, (e, place) => {
+            e.place = place
+            e.points = config.placePoints[place - 1] ?? 0
+        })
+        const rest = ranked.filter(e => e.place === undefined).sort((a, b) => a.code.localeCompare(b.code))
+        return { eventCode, division, kind, entries: [...competing, ...rest] }
+    })
+
+    return rankings.sort((a, b) => eventIndex(a.eventCode) - eventIndex(b.eventCode) || divisionIndex(a.division) - divisionIndex(b.division))
+}
+
+/**
+ * Team points: the sum of the place points of every team entry in every event and division.
+ * Equal points are split by the number of firsts, then seconds, then thirds.
+ */
+export function computeTeamStandings(rankings: EventRanking[]): TeamStanding[] {
+    const teams = new Map<string, TeamStanding>()
+    rankings.forEach(r => r.entries.forEach(e => {
+        if (!teams.has(e.team)) teams.set(e.team, { team: e.team, points: 0, medals: [0, 0, 0], place: 0 })
+        const standing = teams.get(e.team)!
+        standing.points += e.points
+        if (e.place && e.place <= 3) standing.medals[e.place - 1]!++
+    }))
+
+    const compare = (a: TeamStanding, b: TeamStanding) =>
+        b.points - a.points || b.medals[0] - a.medals[0] || b.medals[1] - a.medals[1] || b.medals[2] - a.medals[2]
+    const standings = Array.from(teams.values()).filter(t => t.points > 0).sort((a, b) => compare(a, b) || a.team.localeCompare(b.team))
+    assignPlaces(standings, compare, (t, place) => { t.place = place })
+    return standings
+}
+
+/**
+ * Overall (all-round) standings per division: each athlete's place points summed over every
+ * event they scored in, pair and team entries included. Equal points share a place.
+ */
+export function computeOverallStandings(rankings: EventRanking[]): { division: string, standings: OverallStanding[] }[] {
+    const divisions = new Map<string, Map<string, OverallStanding>>()
+    rankings.forEach(r => r.entries.forEach(e => {
+        if (e.points === 0) return
+        if (!divisions.has(r.division)) divisions.set(r.division, new Map())
+        const athletes = divisions.get(r.division)!
+        e.athletes.forEach(a => {
+            if (!athletes.has(a.key)) athletes.set(a.key, { athleteKey: a.key, name: a.name, team: e.team, points: 0, eventCodes: [], place: 0 })
+            const standing = athletes.get(a.key)!
+            standing.points += e.points
+            standing.eventCodes.push(r.eventCode)
+        })
+    }))
+
+    return Array.from(divisions.entries()).map(([division, athletes]) => {
+        const compare = (a: OverallStanding, b: OverallStanding) => b.points - a.points
+        const standings = Array.from(athletes.values()).sort((a, b) => compare(a, b) || a.name.localeCompare(b.name))
+        assignPlaces(standings, compare, (s, place) => { s.place = place })
+        return { division, standings }
+    })
+}
+
+export const RESULT_EXPORT_HEADERS = ['event', 'division', 'place', 'entry_code', 'name', 'team', 'score', 'detail', 'points', 'status']
+
+/**
+ * One row per entry for the results CSV and XLSX exports, in the same order as the rankings.
+ */
+export function resultExportRows(rankings: EventRanking[]): (string | number)[][] {
+    return rankings.flatMap(r => r.entries.map(e => [
+        r.eventCode,
+        r.division,
+        e.place ?? '',
+        e.code,
+        e.names.join(' / '),
+        e.team,
+        e.score?.score ?? '',
+        e.score?.detail ?? '',
+        e.points,
+        e.status || 'normal'
+    ]))
+}
+
+export type JudgeSheetMode = 'station' | 'judge'
+
+export interface JudgeSheetRow {
+    entryKey: string
+    heat: number
+    station: number
+    code: string
+    names: string[]
+    team: string
+    division: string
+    status?: EntryStatus
+}
+
+export interface JudgeSheet {
+    floorId: string
+    eventCode: string
+    kind: ScoringKind
+    station?: number // Station sheets
+    judge?: number // Judge sheets: position on the panel, from 1
+    rows: JudgeSheetRow[] // Running order
+}
+
+/**
+ * Pre-filled score sheets from the scheduled entries, in event order. Station sheets: one per
+ * event, floor and station, listing every heat at that station. Judge sheets: one per judge on
+ * the panel for each freestyle event, listing all its entries; speed judges count a single
+ * station, so speed events get station sheets either way.
+ */
+export function buildJudgeSheets(
+    participants: Participant[],
+    events: EventConfig[],
+    entryCodePrefixes: Record<string, string>, // "EventCode|DivisionName" -> prefix
+    judgeCount: number,
+    mode: JudgeSheetMode,
+    filter: { eventCode?: string, floorId?: string } = {}
+): JudgeSheet[] {
+    const rowsByEvent = new Map<string, Map<string, JudgeSheetRow>>() // event -> "floor|entryKey" -> row
+    participants.forEach(p => {
+        if (p.heat === undefined || p.station === undefined) return
+        const floorId = p.floorId || DEFAULT_FLOOR_ID
+        if (filter.eventCode && p.eventCode !== filter.eventCode) return
+        if (filter.floorId && floorId !== filter.floorId) return
+        if (!rowsByEvent.has(p.eventCode)) rowsByEvent.set(p.eventCode, new Map())
+        const rows = rowsByEvent.get(p.eventCode)!
+        const entryKey = p.groupId || p.id
+        const key = `${floorId}|${entryKey}`
+        const row = rows.get(key)
+        if (row) {
+            row.names.push(p.name)
+            return
+        }
+        rows.set(key, {
+            entryKey, heat: p.heat, station: p.station,
+            code: formatEntryCode(entryCodePrefixes[`${p.eventCode}|${p.division}`], p.entryNumber),
+            names: [p.name], team: p.team, division: p.division, status: p.status
+        })
+    })
+
+    const eventIndex = (code: string) => {
+        const idx = events.findIndex(e => e.code === code)
+        return idx === -1 ? events.length : idx
+    }
+    const runningOrder = (a: JudgeSheetRow, b: JudgeSheetRow) => a.heat - b.heat || a.station - b.station
+
+    const sheets: JudgeSheet[] = []
+    Array.from(rowsByEvent.keys()).sort((a, b) => eventIndex(a) - eventIndex(b) || a.localeCompare(b)).forEach(eventCode => {
+        const kind = getScoringKind(eventCode, events)
+        const byFloor = new Map<string, JudgeSheetRow[]>()
+        rowsByEvent.get(eventCode)!.forEach((row, key) => {
+            const floorId = key.slice(0, key.indexOf('|'))
+            if (!byFloor.has(floorId)) byFloor.set(floorId, [])
+            byFloor.get(floorId)!.push(row)
+        })
+
+        byFloor.forEach((rows, floorId) => {
+            rows.sort(runningOrder)
+            if (mode === 'judge' && kind === 'freestyle') {
+                for (let judge = 1; judge <= Math.max(1, judgeCount); judge++) sheets.push({ floorId, eventCode, kind, judge, rows })
+                return
+            }
+            const stations = Array.from(new Set(rows.map(r => r.station))).sort((a, b) => a - b)
+            stations.forEach(station => sheets.push({ floorId, eventCode, kind, station, rows: rows.filter(r => r.station === station) }))
+        })
+    })
+    return sheets
+}
@@ -1,83 +1,458 @@
-import type { Participant, EventConfig, DivisionConfig } from '@/config/defaults'
+import type { Participant, EventConfig, DivisionConfig, FloorConfig, ScheduleBlock, ScheduleBlockKind, SessionConfig, EntryStatus } from '@/config/defaults'
+import { DEFAULT_FLOOR_ID } from '@/config/defaults'
+import { splitEntryNames } from '@/services/athleteService'
+import { formatEntryCode } from '@/services/entryCodeService'
 
 // Types needed for the service
+export type HeatFill = 'fill' | 'balanced'
+export type EntryOrder = 'entry-code' | 'spread-teams' | 'keep-teams' | 'random'
+
+export const HEAT_FILL_LABELS: Record<HeatFill, string> = {
+    'fill': 'Fill every station',
+    'balanced': 'Balance heat sizes'
+}
+
+export const ENTRY_ORDER_LABELS: Record<EntryOrder, string> = {
+    'entry-code': 'Entry code order',
+    'spread-teams': 'Spread teams apart',
+    'keep-teams': 'Keep teams together',
+    'random': 'Random draw (seeded)'
+}
+
+export const SCHEDULE_BLOCK_LABELS: Record<ScheduleBlockKind, string> = {
+    'break': 'Break',
+    'warm-up': 'Warm-up',
+    'ceremony': 'Ceremony',
+    'other': 'Other'
+}
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+    'active': 'Active',
+    'scratched': 'Scratched',
+    'dns': 'DNS',
+    'dq': 'DQ',
+    'late': 'Late entry'
+}
+
 export interface RundownConfig {
     startTime: string
     heatDuration: number // minutes
     stationCount: number
     rowsPerPage: number
+    minRestHeats?: number // heats that must run between two appearances of the same athlete
+    minRestMinutes?: number // minutes between the end of one appearance and the start of the next
+    floorId?: string // floor the event runs on; unset = first floor
+    sessionId?: string // session the event runs in; unset = first session
+    heatFill?: HeatFill // unset = 'fill'
+    entryOrder?: EntryOrder // unset = 'entry-code'
+    seed?: number // for 'random'; the same seed gives the same draw
 }
 
 export interface ScheduleOptions {
     targetEventCode?: string
+    eventCodes?: string[] // only schedule these events (e.g. one session's)
     initialStartTime?: string // HH:MM
     startHeatNumber?: number
+    floors?: FloorConfig[] // empty/undefined = one implicit floor using the per-event station counts
+    floorStarts?: Record<string, { heat: number, time?: string }> // per-floor continuation point, overrides the two above
 }
 
 export interface ScheduleResult {
     participantId: string
+    floorId: string
     heat: number
     station: number
     scheduleTime: string
 }
 
+export interface ScheduleWarning {
+    athlete: string
+    participantIds: string[]
+    floorId: string
+    heat: number
+    message: string
+}
+
+export interface ScheduleOutcome {
+    results: ScheduleResult[]
+    warnings: ScheduleWarning[]
+}
+
+export interface TimelineOptions {
+    floors?: FloorConfig[]
+    sessions?: SessionConfig[]
+    blocks?: ScheduleBlock[]
+    eventStartTimes?: Record<string, string> // pinned event starts, HH:MM
+}
+
+// Timeline times are minutes from midnight of the first competition day, so they keep counting
+// past midnight and into later days; `day` is the day the session runs on (0 = first day)
+export interface TimelineHeat {
+    floorId: string
+    sessionId?: string
+    day: number
+    heat: number
+    eventCode: string
+    start: number
+    end: number
+}
+
+export interface TimelineEvent {
+    eventCode: string
+    floorId: string
+    sessionId?: string
+    day: number
+    firstHeat: number
+    lastHeat: number
+    start: number // start of the first heat
+    end: number // end of the last heat
+}
+
+export interface PlacedBlock {
+    block: ScheduleBlock
+    floorId: string
+    sessionId?: string
+    day: number
+    heat: number // heat on the floor the block follows; 0 = before the first heat
+    start: number
+    end: number
+}
+
+export interface TimelineWarning {
+    floorId: string
+    sessionId?: string
+    heat: number
+    message: string
+}
+
+export interface ScheduleTimeline {
+    heats: Map<string, TimelineHeat> // keyed by heatKey()
+    events: Map<string, TimelineEvent> // keyed by event code
+    blocks: PlacedBlock[]
+    warnings: TimelineWarning[]
+}
+
 /**
  * Adds minutes to a HH:MM time string and returns a formatted new time.
- * OPTIMIZED: Uses simple math instead of Date objects for better performance.
+ * Times past midnight carry a day marker ("00:10 +1") instead of wrapping round to the morning.
  */
 export function addMinutes(timeStr: string, minutes: number): string {
     if (!timeStr) return '00:00'
+    return formatMinutes(timeToMinutes(timeStr) + minutes)
+}
+
+/**
+ * Formats minutes from midnight as HH:MM, with " +1", " +2"… for the following days.
+ * Negative values clamp to 00:00.
+ */
+export function formatMinutes(totalMinutes: number): string {
+    const total = Math.max(0, Math.round(totalMinutes))
+    const day = Math.floor(total / 1440)
+    const h = Math.floor((total % 1440) / 60)
+    const m = total % 60
+    const time = `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
+    return day > 0 ? `${time} +${day}` : time
+}
+
+/**
+ * Converts a HH:MM time string (optionally with a " +N" day marker) to minutes from midnight.
+ */
+export function timeToMinutes(timeStr: string | undefined): number {
+    if (!timeStr) return 0
+    const [clock = '', dayStr] = timeStr.trim().split(/\s*\+/)
+    const [hStr, mStr] = clock.split(':')
+    const day = parseInt(dayStr || '0', 10) || 0
+    return day * 1440 + (parseInt(hStr || '0', 10) || 0) * 60 + (parseInt(mStr || '0', 10) || 0)
+}
+
+/**
+ * Formats a timeline time as the clock time on its own day, e.g. Sunday 09:00 rather than "09:00 +1".
+ */
+export function formatTimeOfDay(minutes: number, day: number): string {
+    return formatMinutes(minutes - day * 1440)
+}
+
+/**
+ * Key of a heat in the timeline. Heat numbers restart on every floor.
+ */
+export function heatKey(floorId: string | undefined, heat: number): string {
+    return `${floorId || DEFAULT_FLOOR_ID}|${heat}`
+}
+
+/**
+ * Returns the athletes competing in a participant record: their athlete ids when linked,
+ * so namesakes on different teams stay apart. Unlinked entries fall back to the names,
+ * split like unlinked entries are counted, so a pair typed into one cell counts as two people.
+ */
+export function getAthleteKeys(p: Participant): string[] {
+    if (p.athleteIds && p.athleteIds.length > 0) return [...p.athleteIds]
+    return splitEntryNames(p.name || '')
+}
+
+// Name to show for one of getAthleteKeys(p) in messages
+function athleteLabel(p: Participant, key: string): string {
+    const idx = p.athleteIds?.indexOf(key) ?? -1
+    if (idx === -1) return key
+    return p.athleteIds!.length === 1 ? p.name : splitEntryNames(p.name || '')[idx] || p.name
+}
+
+/**
+ * Scratched and DNS entries don't compete: they keep their station (left empty) but
+ * are ignored by the rest and double-booking checks.
+ */
+export function isWithdrawn(p: Participant): boolean {
+    return p.status === 'scratched' || p.status === 'dns'
+}
+
+/**
+ * Resolves which floor an event runs on.
+ * Unknown or missing floor ids fall back to the first configured floor.
+ */
+export function resolveFloorId(
+    eventCode: string,
+    floors: FloorConfig[] | undefined,
+    getRundownConfig: (eventCode: string) => RundownConfig
+): string {
+    if (!floors || floors.length === 0) return DEFAULT_FLOOR_ID
+    const wanted = getRundownConfig(eventCode).floorId
+    const floor = floors.find(f => f.id === wanted) || floors[0]!
+    return floor.id
+}
+
+/**
+ * Sessions in running order: by date, then start time.
+ */
+export function sortSessions(sessions: SessionConfig[]): SessionConfig[] {
+    return [...sessions].sort((a, b) => (a.date || '').localeCompare(b.date || '') || timeToMinutes(a.startTime) - timeToMinutes(b.startTime))
+}
+
+/**
+ * Days between the earliest session date and this session's (0 = first day).
+ */
+export function getSessionDay(session: SessionConfig, sessions: SessionConfig[]): number {
+    const first = sortSessions(sessions)[0]?.date
+    if (!first || !session.date) return 0
+    return Math.max(0, Math.round((Date.parse(session.date) - Date.parse(first)) / 86400000))
+}
+
+/**
+ * Resolves which session an event runs in. Unknown or missing session ids fall back
+ * to the first session; undefined when the competition has no sessions.
+ */
+export function resolveSessionId(
+    eventCode: string,
+    sessions: SessionConfig[] | undefined,
+    getRundownConfig: (eventCode: string) => RundownConfig
+): string | undefined {
+    if (!sessions || sessions.length === 0) return undefined
+    const wanted = getRundownConfig(eventCode).sessionId
+    return sessions.find(s => s.id === wanted)?.id || sortSessions(sessions)[0]!.id
+}
 
-    const [hStr, mStr] = timeStr.split(':')
-    const h = parseInt(hStr || '0', 10) || 0
-    const m = parseInt(mStr || '0', 10) || 0
+/**
+ * Heading for a session, e.g. "Sat 14 Jun · Morning".
+ */
+export function describeSession(session: SessionConfig): string {
+    const date = session.date ? new Date(`${session.date}T00:00`) : null
+    const day = date && !isNaN(date.getTime())
+        ? date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })
+        : ''
+    return [day, session.label].filter(Boolean).join(' · ')
+}
+
+export type HeatIssueKind = 'overflow' | 'shared-station' | 'mixed-events'
+
+export interface HeatIssue {
+    floorId: string
+    heat: number
+    kind: HeatIssueKind
+    participantIds: string[]
+    message: string
+}
+
+/**
+ * Layout problems in the rundown, heat by heat: entries on stations the floor (or, without floors,
+ * the event) doesn't have, two entries sharing a station, and heats mixing several events.
+ * Athletes in two places at once are reported by findAthleteConflicts.
+ */
+export function findHeatIssues(
+    participants: Participant[],
+    getRundownConfig: (eventCode: string) => RundownConfig,
+    floors: FloorConfig[] = []
+): HeatIssue[] {
+    const heats = new Map<string, Participant[]>()
+    participants.forEach(p => {
+        if (p.heat === undefined || p.station === undefined) return
+        const key = heatKey(p.floorId, p.heat)
+        if (!heats.has(key)) heats.set(key, [])
+        heats.get(key)!.push(p)
+    })
+
+    const issues: HeatIssue[] = []
+    heats.forEach(list => {
+        const floorId = list[0]!.floorId || DEFAULT_FLOOR_ID
+        const heat = list[0]!.heat!
+        const floor = floors.find(f => f.id === floorId)
+        const capacity = floor?.stationCount ?? getRundownConfig(list[0]!.eventCode).stationCount ?? 12
 
-    // Convert everything to total minutes from midnight
-    let totalMinutes = (h * 60) + m + minutes
+        const overflow = list.filter(p => p.station! > capacity)
+        if (overflow.length > 0) {
+            issues.push({ floorId, heat, kind: 'overflow', participantIds: overflow.map(p => p.id), message: `Heat ${heat}: station ${Math.max(...overflow.map(p => p.station!))} is beyond the ${capacity} available` })
+        }
 
-    // Handle wrapping (e.g. past midnight) 
-    // 1440 minutes = 24 hours
-    totalMinutes = totalMinutes % 1440
-    if (totalMinutes < 0) totalMinutes += 1440 // Handle negative subtraction if needed
+        const byStation = new Map<number, Participant[]>()
+        list.forEach(p => {
+            if (!byStation.has(p.station!)) byStation.set(p.station!, [])
+            byStation.get(p.station!)!.push(p)
+        })
+        byStation.forEach((onStation, station) => {
+            if (new Set(onStation.map(p => p.groupId || p.id)).size < 2) return
+            issues.push({ floorId, heat, kind: 'shared-station', participantIds: onStation.map(p => p.id), message: `Heat ${heat}: station ${station} has more than one entry` })
+        })
 
-    const newH = Math.floor(totalMinutes / 60)
-    const newM = totalMinutes % 60
+        const codes = Array.from(new Set(list.map(p => p.eventCode)))
+        if (codes.length > 1) {
+            issues.push({ floorId, heat, kind: 'mixed-events', participantIds: list.map(p => p.id), message: `Heat ${heat} mixes ${codes.join(', ')}` })
+        }
+    })
 
-    return `${String(newH).padStart(2, '0')}:${String(newM).padStart(2, '0')}`
+    return issues.sort((a, b) => a.floorId.localeCompare(b.floorId) || a.heat - b.heat)
 }
 
 /**
- * Helper to calculate the entry index (e.g., 1, 2, 3) for a participant within a list.
- * Respects group logic (same group = same index).
+ * Where a late entry can go without moving anyone: the first station nobody holds in one of its
+ * event's heats, up to the floor's (or the event's) station count. Stations kept by scratched
+ * entries stay theirs, and locked heats are skipped. Null when the event has no room.
  */
-function getEntryIndex(p: Participant, list: Participant[]): number {
-    if (!p.groupId) {
-        return list.indexOf(p) + 1
+export function findFreeStation(
+    participants: Participant[],
+    eventCode: string,
+    getRundownConfig: (eventCode: string) => RundownConfig,
+    floors: FloorConfig[] = []
+): { floorId: string, heat: number, station: number } | null {
+    const floorId = resolveFloorId(eventCode, floors, getRundownConfig)
+    const capacity = floors.find(f => f.id === floorId)?.stationCount ?? getRundownConfig(eventCode).stationCount ?? 12
+    const onFloor = participants.filter(p => p.heat !== undefined && (p.floorId || DEFAULT_FLOOR_ID) === floorId)
+    const heats = Array.from(new Set(onFloor.filter(p => p.eventCode === eventCode).map(p => p.heat!))).sort((a, b) => a - b)
+
+    for (const heat of heats) {
+        const inHeat = onFloor.filter(p => p.heat === heat)
+        if (inHeat.some(p => p.heatLocked)) continue
+        const taken = new Set(inHeat.map(p => p.station))
+        for (let station = 1; station <= capacity; station++) {
+            if (!taken.has(station)) return { floorId, heat, station }
+        }
     }
+    return null
+}
 
-    let pGroupIndex = -1
-    let entryCounter = 0
-    const processedGroups = new Set<string>()
+interface Appearance {
+    floorId: string
+    heat: number
+    station: number
+    start: number // minutes from midnight
+    end: number
+    participantId: string
+    eventCode: string
+}
 
-    for (const item of list) {
-        if (item.groupId) {
-            if (!processedGroups.has(item.groupId)) {
-                processedGroups.add(item.groupId)
-                entryCounter++
-            }
-            if (item.id === p.id) {
-                pGroupIndex = entryCounter
-                break
-            }
-        } else {
-            entryCounter++
-            if (item.id === p.id) {
-                pGroupIndex = entryCounter
-                break
-            }
+/**
+ * Checks two appearances of the same athlete against each other.
+ * Heats are only comparable on the same floor; across floors the clock decides what came first.
+ * Returns a description of the violation, or null when the rest rules are met.
+ */
+function checkRest(
+    a: Appearance,
+    b: Appearance,
+    getRundownConfig: (eventCode: string) => RundownConfig,
+    floorLabel: (floorId: string) => string = id => id
+): string | null {
+    const sameFloor = a.floorId === b.floorId
+    const aFirst = sameFloor ? a.heat <= b.heat : a.start <= b.start
+    const prev = aFirst ? a : b
+    const next = aFirst ? b : a
+    const config = getRundownConfig(next.eventCode)
+
+    if (sameFloor && prev.heat === next.heat) {
+        return prev.station === next.station ? null : `double-booked in heat ${next.heat} (stations ${prev.station} & ${next.station})`
+    }
+    if (!sameFloor && next.start < prev.end) {
+        return `double-booked: ${floorLabel(prev.floorId)} heat ${prev.heat} overlaps ${floorLabel(next.floorId)} heat ${next.heat}`
+    }
+
+    if (sameFloor) {
+        const minHeats = config.minRestHeats ?? 0
+        const heatsBetween = next.heat - prev.heat - 1
+        if (heatsBetween < minHeats) {
+            return `only ${heatsBetween} heat(s) between heat ${prev.heat} and heat ${next.heat} (min ${minHeats})`
         }
     }
-    return pGroupIndex
+
+    const minMinutes = config.minRestMinutes ?? 0
+    const restMinutes = next.start - prev.end
+    if (restMinutes < minMinutes) {
+        const from = sameFloor ? `heat ${prev.heat}` : `${floorLabel(prev.floorId)} heat ${prev.heat}`
+        const to = sameFloor ? `heat ${next.heat}` : `${floorLabel(next.floorId)} heat ${next.heat}`
+        return `only ${restMinutes} min rest between ${from} and ${to} (min ${minMinutes})`
+    }
+    return null
+}
+
+/**
+ * Scans scheduled participants and reports every athlete who appears twice in one heat
+ * (or at overlapping times on different floors) or without the configured rest before their next appearance.
+ * The rest rule applied is the one configured for the event of the later appearance.
+ */
+export function findAthleteConflicts(
+    participants: Participant[],
+    getRundownConfig: (eventCode: string) => RundownConfig,
+    floors: FloorConfig[] = []
+): ScheduleWarning[] {
+    const appearances = new Map<string, Appearance[]>()
+    const labels = new Map<string, string>()
+    const floorLabel = (id: string) => floors.find(f => f.id === id)?.name || id
+
+    participants.forEach(p => {
+        if (p.heat === undefined || p.station === undefined || isWithdrawn(p)) return
+        const conf = getRundownConfig(p.eventCode)
+        const start = timeToMinutes(p.scheduleTime)
+        getAthleteKeys(p).forEach(key => {
+            if (!labels.has(key)) labels.set(key, athleteLabel(p, key))
+            if (!appearances.has(key)) appearances.set(key, [])
+            appearances.get(key)!.push({
+                floorId: p.floorId || DEFAULT_FLOOR_ID,
+                heat: p.heat!,
+                station: p.station!,
+                start,
+                end: start + (conf.heatDuration ?? 2),
+                participantId: p.id,
+                eventCode: p.eventCode
+            })
+        })
+    })
+
+    const warnings: ScheduleWarning[] = []
+    appearances.forEach((list, key) => {
+        if (list.length < 2) return
+        const athlete = labels.get(key) || key
+        list.sort((a, b) => a.start - b.start || a.floorId.localeCompare(b.floorId) || a.heat - b.heat || a.station - b.station)
+        for (let i = 1; i < list.length; i++) {
+            const prev = list[i - 1]!
+            const next = list[i]!
+            const problem = checkRest(prev, next, getRundownConfig, floorLabel)
+            if (problem) {
+                warnings.push({
+                    athlete,
+                    participantIds: [prev.participantId, next.participantId],
+                    floorId: next.floorId,
+                    heat: next.heat,
+                    message: `${athlete}: ${problem}`
+                })
+            }
+        }
+    })
+
+    return warnings.sort((a, b) => a.floorId.localeCompare(b.floorId) || a.heat - b.heat)
 }
 
 /**
@@ -85,24 +460,99 @@ function getEntryIndex(p: Participant, list: Participant[]): number {
  */
 function getSortableEntryCode(
     p: Participant,
-    allParticipants: Participant[],
     entryCodePrefixes: Record<string, string> // Map of "EventCode|DivisionName" -> "Prefix"
 ): string {
-    const key = `${p.eventCode}|${p.division}`
-    const prefix = entryCodePrefixes[key]
+    return formatEntryCode(entryCodePrefixes[`${p.eventCode}|${p.division}`], p.entryNumber)
+}
+
+// One station's worth of participants: a single entry or a whole group
+type ScheduleEntry = { id: string, type: 'group' | 'single', participants: Participant[], athletes: string[] }
+
+// Small deterministic PRNG (mulberry32) so a seed always reproduces the same draw
+function seededRandom(seed: number) {
+    let a = seed >>> 0
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0
+        let t = a
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+function hashString(value: string) {
+    let h = 0
+    for (let i = 0; i < value.length; i++) h = (Math.imul(h, 31) + value.charCodeAt(i)) | 0
+    return h
+}
 
-    if (!prefix) return '-'
+function entryTeam(entry: ScheduleEntry) {
+    return (entry.participants[0]?.team || 'INDEPENDENT').trim().toUpperCase()
+}
 
-    // We need the list of participants in this specific Division/Event to find the index
-    const divParts = allParticipants.filter(x => x.eventCode === p.eventCode && x.division === p.division)
-    const index = getEntryIndex(p, divParts)
+// Team buckets in order of each team's first entry
+function bucketByTeam(queue: ScheduleEntry[]) {
+    const buckets = new Map<string, ScheduleEntry[]>()
+    queue.forEach(entry => {
+        const list = buckets.get(entryTeam(entry))
+        if (list) list.push(entry)
+        else buckets.set(entryTeam(entry), [entry])
+    })
+    return Array.from(buckets.values())
+}
 
-    return `${prefix}${String(index).padStart(3, '0')}`
+/**
+ * Orders one event's entries (given in entry-code order) for station assignment.
+ * The random draw mixes the event code into the seed so events don't all draw alike.
+ */
+function orderEntries(queue: ScheduleEntry[], eventCode: string, config: RundownConfig): ScheduleEntry[] {
+    switch (config.entryOrder) {
+        case 'keep-teams':
+            return bucketByTeam(queue).flat()
+        case 'spread-teams': {
+            // Round-robin over teams, largest first, so team-mates land in different stations and heats
+            const buckets = bucketByTeam(queue).sort((a, b) => b.length - a.length)
+            const ordered: ScheduleEntry[] = []
+            for (let i = 0; ordered.length < queue.length; i++) {
+                buckets.forEach(bucket => {
+                    if (bucket[i]) ordered.push(bucket[i]!)
+                })
+            }
+            return ordered
+        }
+        case 'random': {
+            const random = seededRandom((config.seed ?? 0) ^ hashString(eventCode))
+            const ordered = [...queue]
+            for (let i = ordered.length - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1))
+                ;[ordered[i], ordered[j]] = [ordered[j]!, ordered[i]!]
+            }
+            return ordered
+        }
+        default:
+            return [...queue]
+    }
+}
+
+/**
+ * Stations used in each heat of one event. 'fill' packs every heat (12, 12, 1);
+ * 'balanced' uses as few heats as filling would but spreads entries evenly (9, 8, 8).
+ */
+export function planHeatSizes(entryCount: number, maxStations: number, fill: HeatFill = 'fill'): number[] {
+    const stations = Math.max(1, maxStations)
+    const heats = Math.ceil(entryCount / stations)
+    if (fill !== 'balanced') return Array.from({ length: heats }, () => stations)
+    const base = Math.floor(entryCount / heats)
+    const extra = entryCount % heats
+    return Array.from({ length: heats }, (_, i) => base + (i < extra ? 1 : 0))
 }
 
 /**
  * Core Scheduling Logic
  * Pure function: takes data, returns updates. Does not mutate inputs.
+ * Within each event, entries follow the event's entry order and heat fill, and may be pulled forward so athletes get their configured rest.
+ * The times returned ignore breaks and pinned starts; buildTimeline gives the final ones.
+ * Scratched and DNS entries still take a station, so withdrawing one never reshuffles the others.
  */
 export function scheduleParticipants(
     participants: Participant[],
@@ -110,7 +560,7 @@ export function scheduleParticipants(
     entryCodePrefixes: Record<string, string>,
     getRundownConfig: (eventCode: string) => RundownConfig,
     options: ScheduleOptions = {}
-): ScheduleResult[] {
+): ScheduleOutcome {
     // 1. Filter Check
     let partsToSchedule: Participant[] = []
     if (options.targetEventCode) {
@@ -118,8 +568,21 @@ export function scheduleParticipants(
     } else {
         partsToSchedule = [...participants]
     }
+    if (options.eventCodes) {
+        const codes = new Set(options.eventCodes)
+        partsToSchedule = partsToSchedule.filter(p => codes.has(p.eventCode))
+    }
+    // Locked heats keep their entries; new heats are numbered around them
+    partsToSchedule = partsToSchedule.filter(p => !p.heatLocked)
+    const lockedHeats = new Map<string, Set<number>>()
+    participants.forEach(p => {
+        if (!p.heatLocked || p.heat === undefined) return
+        const floorId = p.floorId || DEFAULT_FLOOR_ID
+        if (!lockedHeats.has(floorId)) lockedHeats.set(floorId, new Set())
+        lockedHeats.get(floorId)!.add(p.heat)
+    })
 
-    if (partsToSchedule.length === 0) return []
+    if (partsToSchedule.length === 0) return { results: [], warnings: [] }
 
     // 2. Sort Logic
     const norm = (s: string) => (s || '').trim()
@@ -128,7 +591,7 @@ export function scheduleParticipants(
     // Optimization: Calculate sort keys once.
     const sortKeys = new Map<string, string>()
     partsToSchedule.forEach(p => {
-        sortKeys.set(p.id, getSortableEntryCode(p, participants, entryCodePrefixes))
+        sortKeys.set(p.id, getSortableEntryCode(p, entryCodePrefixes))
     })
 
     const sortedParts = [...partsToSchedule].sort((a, b) => {
@@ -159,7 +622,7 @@ export function scheduleParticipants(
     })
 
     // 3. Grouping for Station Assignment
-    const entries: Array<{ id: string, type: 'group' | 'single', participants: Participant[] }> = []
+    const entries: ScheduleEntry[] = []
     const processedGroups = new Set<string>()
 
     sortedParts.forEach(p => {
@@ -167,67 +630,307 @@ export function scheduleParticipants(
             if (!processedGroups.has(p.groupId)) {
                 processedGroups.add(p.groupId)
                 const groupParts = sortedParts.filter(gp => gp.groupId === p.groupId)
-                entries.push({ id: p.groupId, type: 'group', participants: groupParts })
+                entries.push({ id: p.groupId, type: 'group', participants: groupParts, athletes: isWithdrawn(p) ? [] : groupParts.flatMap(getAthleteKeys) })
             }
         } else {
-            entries.push({ id: p.id, type: 'single', participants: [p] })
+            entries.push({ id: p.id, type: 'single', participants: [p], athletes: isWithdrawn(p) ? [] : getAthleteKeys(p) })
         }
     })
 
-    // 4. Assign Heats and Stations
-    const results: ScheduleResult[] = []
+    // Split into consecutive per-event queues (entries are already in event order)
+    const eventQueues: ScheduleEntry[][] = []
+    entries.forEach(entry => {
+        const code = norm(entry.participants[0]?.eventCode || '')
+        const lastQueue = eventQueues[eventQueues.length - 1]
+        if (lastQueue && norm(lastQueue[0]?.participants[0]?.eventCode || '') === code) lastQueue.push(entry)
+        else eventQueues.push([entry])
+    })
 
-    let currentHeat = options.startHeatNumber || 1
-    let currentStation = 1
-    let lastEventCode = ''
+    // 4. Assign Heats and Stations, one independent timeline per floor
+    const results: ScheduleResult[] = []
+    const floors = options.floors || []
+    const floorOf = (eventCode: string) => resolveFloorId(eventCode, floors, getRundownConfig)
+
+    // Every appearance of every athlete, seeded from heats outside this run (e.g. other events already scheduled)
+    const athleteAppearances = new Map<string, Appearance[]>()
+    const recordAppearance = (key: string, appearance: Appearance) => {
+        if (!athleteAppearances.has(key)) athleteAppearances.set(key, [])
+        athleteAppearances.get(key)!.push(appearance)
+    }
+    const scheduledIds = new Set(partsToSchedule.map(p => p.id))
+    participants.forEach(p => {
+        if (scheduledIds.has(p.id) || p.heat === undefined || p.station === undefined || isWithdrawn(p)) return
+        const start = timeToMinutes(p.scheduleTime)
+        const appearance = {
+            floorId: p.floorId || DEFAULT_FLOOR_ID, heat: p.heat, station: p.station,
+            start, end: start + (getRundownConfig(p.eventCode).heatDuration ?? 2),
+            participantId: p.id, eventCode: p.eventCode
+        }
+        getAthleteKeys(p).forEach(key => recordAppearance(key, appearance))
+    })
 
-    // Initial Time Setup
-    const firstEventCode = entries[0]?.participants[0]?.eventCode
-    const effectiveConfigEvent = options.targetEventCode || firstEventCode || 'GLOBAL'
-    const initialConfig = getRundownConfig(effectiveConfigEvent)
+    const floorIds = floors.length > 0 ? floors.map(f => f.id) : [DEFAULT_FLOOR_ID]
+    floorIds.forEach(floorId => {
+        const floor = floors.find(f => f.id === floorId)
+        const floorQueues = eventQueues.filter(q => floorOf(norm(q[0]?.participants[0]?.eventCode || '')) === floorId)
+        if (floorQueues.length === 0) return
 
-    let currentHeatStartTime = options.initialStartTime || initialConfig.startTime || '09:00'
+        const floorStart = options.floorStarts?.[floorId]
+        let currentHeat = floorStart?.heat || options.startHeatNumber || 1
+        let currentStation = 1
+        let lastEventCode = ''
 
-    entries.forEach(entry => {
-        if (!entry.participants[0]) return
-        const entryEvent = norm(entry.participants[0].eventCode)
-        const entryConfig = getRundownConfig(entryEvent)
+        // Initial Time Setup
+        const firstEventCode = floorQueues[0]?.[0]?.participants[0]?.eventCode
+        const effectiveConfigEvent = options.targetEventCode || firstEventCode || 'GLOBAL'
+        const initialConfig = getRundownConfig(effectiveConfigEvent)
 
-        const maxStations = entryConfig.stationCount ?? 12
-        const heatDuration = entryConfig.heatDuration ?? 2
+        let currentHeatStartTime = floorStart?.time || options.initialStartTime || floor?.startTime || initialConfig.startTime || '09:00'
 
-        // Event Switch Logic (Force new Heat)
-        if (lastEventCode && entryEvent !== lastEventCode) {
-            if (currentStation > 1) {
+        const locked = lockedHeats.get(floorId) || new Set<number>()
+        const skipLockedHeats = () => {
+            while (locked.has(currentHeat)) {
                 currentHeat++
-                currentStation = 1
-                // Add duration of PREVIOUS heat's event
-                const prevConfig = getRundownConfig(lastEventCode)
-                currentHeatStartTime = addMinutes(currentHeatStartTime, prevConfig.heatDuration ?? 2)
+                currentHeatStartTime = addMinutes(currentHeatStartTime, initialConfig.heatDuration ?? 2)
+            }
+        }
+        skipLockedHeats()
+
+        const fitsRest = (entry: ScheduleEntry, config: RundownConfig) => {
+            const start = timeToMinutes(currentHeatStartTime)
+            const candidate = {
+                floorId, heat: currentHeat, station: currentStation,
+                start, end: start + (config.heatDuration ?? 2),
+                participantId: '', eventCode: entry.participants[0]?.eventCode || ''
             }
+            return entry.athletes.every(key =>
+                (athleteAppearances.get(key) || []).every(prev => checkRest(prev, candidate, getRundownConfig) === null)
+            )
         }
-        lastEventCode = entryEvent
 
-        // Station Capacity Logic
-        if (currentStation > maxStations) {
-            currentHeat++
-            currentStation = 1
-            // Add duration of CURRENT heat's event (approximate ownership)
-            currentHeatStartTime = addMinutes(currentHeatStartTime, heatDuration)
+        floorQueues.forEach(queue => {
+            const entryEvent = norm(queue[0]?.participants[0]?.eventCode || '')
+            const entryConfig = getRundownConfig(entryEvent)
+
+            // A floor's station set caps whatever the event itself is configured for
+            const eventStations = entryConfig.stationCount ?? 12
+            const maxStations = floor ? Math.min(eventStations, floor.stationCount) : eventStations
+            const heatDuration = entryConfig.heatDuration ?? 2
+
+            // Event Switch Logic (Force new Heat)
+            if (lastEventCode && entryEvent !== lastEventCode) {
+                if (currentStation > 1) {
+                    currentHeat++
+                    currentStation = 1
+                    // Add duration of PREVIOUS heat's event
+                    const prevConfig = getRundownConfig(lastEventCode)
+                    currentHeatStartTime = addMinutes(currentHeatStartTime, prevConfig.heatDuration ?? 2)
+                    skipLockedHeats()
+                }
+            }
+            lastEventCode = entryEvent
+
+            const pending = orderEntries(queue, entryEvent, entryConfig)
+            const heatSizes = planHeatSizes(queue.length, maxStations, entryConfig.heatFill)
+            let heatIndex = 0
+            while (pending.length > 0) {
+                // Station Capacity Logic
+                if (currentStation > (heatSizes[heatIndex] ?? maxStations)) {
+                    currentHeat++
+                    currentStation = 1
+                    heatIndex++
+                    // Add duration of CURRENT heat's event (approximate ownership)
+                    currentHeatStartTime = addMinutes(currentHeatStartTime, heatDuration)
+                    skipLockedHeats()
+                }
+
+                // Take the first entry (in strategy order) whose athletes have rested enough.
+                // If none qualifies, keep the original order; the conflict is reported below.
+                const fitIdx = pending.findIndex(e => fitsRest(e, entryConfig))
+                const entry = pending.splice(fitIdx === -1 ? 0 : fitIdx, 1)[0]!
+
+                // Create Result Updates
+                entry.participants.forEach(p => {
+                    results.push({
+                        participantId: p.id,
+                        floorId,
+                        heat: currentHeat,
+                        station: currentStation,
+                        scheduleTime: currentHeatStartTime
+                    })
+                })
+
+                const start = timeToMinutes(currentHeatStartTime)
+                const appearance = {
+                    floorId, heat: currentHeat, station: currentStation,
+                    start, end: start + heatDuration,
+                    participantId: entry.participants[0]!.id, eventCode: entryEvent
+                }
+                entry.athletes.forEach(key => recordAppearance(key, appearance))
+
+                currentStation++
+            }
+        })
+    })
+
+    // 5. Report whatever the reordering could not resolve
+    const resultMap = new Map(results.map(r => [r.participantId, r]))
+    const projected = participants.map(p => {
+        const r = resultMap.get(p.id)
+        if (r) return { ...p, floorId: r.floorId, heat: r.heat, station: r.station, scheduleTime: r.scheduleTime }
+        return scheduledIds.has(p.id) ? { ...p, heat: undefined, station: undefined } : p
+    })
+    const warnings = findAthleteConflicts(projected, getRundownConfig, floors)
+        .filter(w => w.participantIds.some(id => scheduledIds.has(id)))
+
+    return { results, warnings }
+}
+
+
+/**
+ * The one authoritative timeline: start and end of every scheduled heat, event and block.
+ * Every session runs each floor as its own lane. A lane starts at the session's start time (without
+ * sessions: the floor's start time, or the first event's configured start) and runs its heats in
+ * order, each lasting its event's heat duration. Breaks and other blocks push later heats back, and
+ * a pinned event start or fixed block start makes the lane wait for it. Pins the heats before them
+ * overrun, blocks with no heats to attach to, sessions running past their end time and lanes
+ * running past midnight are reported.
+ */
+export function buildTimeline(
+    participants: Participant[],
+    getRundownConfig: (eventCode: string) => RundownConfig,
+    options: TimelineOptions = {}
+): ScheduleTimeline {
+    const floors = options.floors || []
+    const sessions = sortSessions(options.sessions || [])
+    const blocks = options.blocks || []
+    const pins = options.eventStartTimes || {}
+    const timeline: ScheduleTimeline = { heats: new Map(), events: new Map(), blocks: [], warnings: [] }
+    const sessionOf = (eventCode: string) => resolveSessionId(eventCode, sessions, getRundownConfig)
+
+    // Lane ("sessionId|floorId") -> heat -> event running it. Heat numbers are unique per floor across sessions.
+    const lanes = new Map<string, { sessionId?: string, floorId: string, heats: Map<number, string> }>()
+    participants.forEach(p => {
+        if (p.heat === undefined || p.station === undefined) return
+        const floorId = p.floorId || DEFAULT_FLOOR_ID
+        const sessionId = sessionOf(p.eventCode)
+        const laneKey = `${sessionId || ''}|${floorId}`
+        if (!lanes.has(laneKey)) lanes.set(laneKey, { sessionId, floorId, heats: new Map() })
+        const heats = lanes.get(laneKey)!.heats
+        if (!heats.has(p.heat)) heats.set(p.heat, p.eventCode)
+    })
+    if (lanes.size === 0) return timeline
+
+    const floorIndex = (id: string) => {
+        const idx = floors.findIndex(f => f.id === id)
+        return idx === -1 ? floors.length : idx
+    }
+    const sessionIndex = (id: string | undefined) => sessions.findIndex(s => s.id === id)
+    const orderedLanes = Array.from(lanes.values()).sort((a, b) =>
+        sessionIndex(a.sessionId) - sessionIndex(b.sessionId) || floorIndex(a.floorId) - floorIndex(b.floorId))
+
+    // Where each block goes: the floor heat it follows (0 = start of the floor's first lane)
+    const defaultFloorId = floors[0]?.id || DEFAULT_FLOOR_ID
+    const eventHeats = new Map<string, { floorId: string, heats: number[] }>()
+    orderedLanes.forEach(({ floorId, heats }) => {
+        Array.from(heats.keys()).sort((a, b) => a - b).forEach(heat => {
+            const code = heats.get(heat)!
+            if (!eventHeats.has(code)) eventHeats.set(code, { floorId, heats: [] })
+            eventHeats.get(code)!.heats.push(heat)
+        })
+    })
+    const scheduledFloors = new Set(orderedLanes.map(l => l.floorId))
+    const blocksAfter = new Map<string, ScheduleBlock[]>()
+    blocks.forEach(block => {
+        let key: string
+        if (block.afterEvent) {
+            const run = eventHeats.get(block.afterEvent)
+            if (!run) {
+                timeline.warnings.push({ floorId: defaultFloorId, heat: 0, message: `${block.label} is not placed: ${block.afterEvent} has no heats` })
+                return
+            }
+            const index = Math.min(block.afterEventHeat || run.heats.length, run.heats.length) - 1
+            key = heatKey(run.floorId, run.heats[Math.max(0, index)]!)
+        } else {
+            const floorId = floors.some(f => f.id === block.floorId) ? block.floorId! : defaultFloorId
+            if (!scheduledFloors.has(floorId)) {
+                const floorName = floors.find(f => f.id === floorId)?.name || 'its floor'
+                timeline.warnings.push({ floorId, heat: 0, message: `${block.label} is not placed: ${floorName} has no heats` })
+                return
+            }
+            key = heatKey(floorId, 0)
         }
+        if (!blocksAfter.has(key)) blocksAfter.set(key, [])
+        blocksAfter.get(key)!.push(block)
+    })
 
-        // Create Result Updates
-        entry.participants.forEach(p => {
-            results.push({
-                participantId: p.id,
-                heat: currentHeat,
-                station: currentStation,
-                scheduleTime: currentHeatStartTime
+    const startedFloors = new Set<string>()
+    orderedLanes.forEach(({ sessionId, floorId, heats }) => {
+        const order = Array.from(heats.keys()).sort((a, b) => a - b)
+        const session = sessions.find(s => s.id === sessionId)
+        const floor = floors.find(f => f.id === floorId)
+        const day = session ? getSessionDay(session, sessions) : 0
+        const dayStart = day * 1440
+        const laneStart = session?.startTime || floor?.startTime || getRundownConfig(heats.get(order[0]!)!).startTime || '09:00'
+        let clock = dayStart + timeToMinutes(laneStart)
+
+        const placeBlocks = (heat: number) => {
+            (blocksAfter.get(heatKey(floorId, heat)) || []).forEach(block => {
+                if (block.fixedStart) {
+                    const fixed = dayStart + timeToMinutes(block.fixedStart)
+                    if (clock > fixed) {
+                        timeline.warnings.push({ floorId, sessionId, heat, message: `${block.label} is fixed at ${block.fixedStart} but can't start before ${formatTimeOfDay(clock, day)}` })
+                    } else {
+                        clock = fixed
+                    }
+                }
+                const start = clock
+                clock += Math.max(0, block.duration || 0)
+                timeline.blocks.push({ block, floorId, sessionId, day, heat, start, end: clock })
             })
+        }
+
+        // Blocks at the start of the day open the floor's first lane only
+        if (!startedFloors.has(floorId)) {
+            startedFloors.add(floorId)
+            placeBlocks(0)
+        }
+        let lastEvent = ''
+        order.forEach(heat => {
+            const code = heats.get(heat)!
+            const pin = pins[code]
+            if (code !== lastEvent && pin) {
+                const pinned = dayStart + timeToMinutes(pin)
+                if (clock > pinned) {
+                    timeline.warnings.push({ floorId, sessionId, heat, message: `${code} is pinned to ${pin} but can't start before ${formatTimeOfDay(clock, day)}` })
+                } else {
+                    clock = pinned
+                }
+            }
+            lastEvent = code
+
+            const start = clock
+            clock += getRundownConfig(code).heatDuration ?? 2
+            timeline.heats.set(heatKey(floorId, heat), { floorId, sessionId, day, heat, eventCode: code, start, end: clock })
+
+            const evt = timeline.events.get(code)
+            if (evt) {
+                evt.lastHeat = heat
+                evt.end = clock
+            } else {
+                timeline.events.set(code, { eventCode: code, floorId, sessionId, day, firstHeat: heat, lastHeat: heat, start, end: clock })
+            }
+            placeBlocks(heat)
         })
 
-        currentStation++
+        const lastHeat = order[order.length - 1]!
+        if (session?.endTime && clock > dayStart + timeToMinutes(session.endTime)) {
+            timeline.warnings.push({ floorId, sessionId, heat: lastHeat, message: `${session.label} runs until ${formatTimeOfDay(clock, day)}, past its ${session.endTime} end` })
+        }
+        if (clock > dayStart + 1440) {
+            timeline.warnings.push({ floorId, sessionId, heat: lastHeat, message: `Runs past midnight: the day ends at ${formatTimeOfDay(clock, day)}` })
+        }
     })
 
-    return results
-}
\ No newline at end of file
+    return timeline
+}
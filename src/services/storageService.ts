@@ -0,0 +1,305 @@
+import { DEFAULT_DIVISIONS, DEFAULT_EVENTS, DEFAULT_SCORING, DEFAULT_LIVE_STATE } from '@/config/defaults'
+import type { Participant, Athlete, CompetitionData, CompetitionMeta } from '@/config/defaults'
+import { linkParticipantAthletes } from '@/services/athleteService'
+import { legacyEntryCodes, lockLegacyEntryNumbers, findChangedEntryCodes } from '@/services/entryCodeService'
+
+const DB_NAME = 'offline-namelist'
+const DB_VERSION = 2 // IndexedDB structure (object stores / indexes)
+
+/**
+ * Version of the stored competition record layout.
+ * Bump it and add an entry to DATA_MIGRATIONS whenever CompetitionData changes shape.
+ */
+export const DATA_SCHEMA_VERSION = 8
+
+// Competition data minus the record lists, which live in their own object stores
+type StoredSettings = Omit<CompetitionData, 'participants' | 'athletes'>
+
+interface StoredCompetition extends StoredSettings {
+    id: string
+    schemaVersion: number
+}
+
+// Records kept per competition in their own object stores, keyed by [competitionId, id]
+type RecordStoreName = 'participants' | 'athletes'
+
+/** Records written (upserts) and removed (deletedIds) since the last save. */
+export interface RecordChanges<T> {
+    upserts: T[]
+    deletedIds: string[]
+}
+
+interface StoredRecords {
+    data: any
+    participants: any[]
+    athletes: any[]
+}
+
+/**
+ * Upgrades a stored competition one schema version at a time.
+ * Key = version being upgraded FROM. Each step receives the settings and the record lists.
+ */
+const DATA_MIGRATIONS: Record<number, (stored: StoredRecords) => StoredRecords> = {
+    // v0 = the old localStorage layout: no rundown configs or floors, everything optional
+    0: ({ data, participants, athletes }) => ({
+        data: {
+            ...data,
+            events: data.events || [...DEFAULT_EVENTS],
+            divisions: data.divisions || [...DEFAULT_DIVISIONS],
+            entryCodes: data.entryCodes || {},
+            eventStartTimes: data.eventStartTimes || {},
+            eventRundownConfigs: data.eventRundownConfigs || {},
+            floors: data.floors || [],
+            competitionTitle: data.competitionTitle || '',
+            competitionDate: data.competitionDate || ''
+        },
+        participants,
+        athletes
+    }),
+    // v1 had no athlete records; derive them from the entry names
+    1: ({ data, participants, athletes }) => ({ data, ...linkParticipantAthletes(participants, athletes) }),
+    // v2 derived entry codes from list position; lock in the codes as they currently read
+    2: ({ data, participants, athletes }) => {
+        const before = legacyEntryCodes(participants, data.events, data.divisions, data.entryCodes)
+        const numbered = lockLegacyEntryNumbers(participants, data.events, data.divisions)
+        if (findChangedEntryCodes(before, numbered, data.entryCodes).length > 0) {
+            throw new StorageError('Could not upgrade this competition without changing its entry codes.')
+        }
+        return { data, participants: numbered, athletes }
+    },
+    // v3 had no prefix scheme; existing prefixes were typed by hand
+    3: ({ data, participants, athletes }) => ({ data: { ...data, entryCodeScheme: data.entryCodeScheme || '' }, participants, athletes }),
+    // v4 had no breaks or other fixed blocks in the timeline
+    4: ({ data, participants, athletes }) => ({ data: { ...data, scheduleBlocks: data.scheduleBlocks || [] }, participants, athletes }),
+    // v5 ran everything as one session
+    5: ({ data, participants, athletes }) => ({ data: { ...data, sessions: data.sessions || [] }, participants, athletes }),
+    // v6 stopped at the rundown: no results or scoring settings
+    6: ({ data, participants, athletes }) => ({ data: { ...data, results: data.results || [], scoring: data.scoring || { ...DEFAULT_SCORING } }, participants, athletes }),
+    // v7 had no competition-day tracking
+    7: ({ data, participants, athletes }) => ({ data: { ...data, live: data.live || { ...DEFAULT_LIVE_STATE, heats: [] } }, participants, athletes })
+}
+
+export class StorageError extends Error {
+    readonly isQuotaExceeded: boolean
+
+    constructor(message: string, cause?: unknown) {
+        super(message)
+        this.name = 'StorageError'
+        this.isQuotaExceeded = cause instanceof DOMException && cause.name === 'QuotaExceededError'
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise
+    dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION)
+        req.onupgradeneeded = (event) => {
+            const db = req.result
+            // Structural upgrades, applied in order from the version found on disk
+            if (event.oldVersion < 1) {
+                db.createObjectStore('competitions', { keyPath: 'id' })
+                db.createObjectStore('competitionData', { keyPath: 'id' })
+                const parts = db.createObjectStore('participants', { keyPath: ['competitionId', 'id'] })
+                parts.createIndex('competitionId', 'competitionId')
+            }
+            if (event.oldVersion < 2) {
+                const athletes = db.createObjectStore('athletes', { keyPath: ['competitionId', 'id'] })
+                athletes.createIndex('competitionId', 'competitionId')
+            }
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => {
+            dbPromise = null
+            reject(new StorageError('Could not open the local database.', req.error))
+        }
+    })
+    return dbPromise
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+    })
+}
+
+/**
+ * Runs `work` inside one transaction and resolves once it has committed.
+ * Any failure (including quota errors, which surface on commit) is rethrown as a StorageError.
+ */
+async function withTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+    const db = await openDatabase()
+    const tx = db.transaction(storeNames, mode)
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onabort = () => reject(tx.error)
+        tx.onerror = () => reject(tx.error)
+    })
+    done.catch(() => { }) // Observed below; avoids an unhandled rejection when `work` throws first
+    try {
+        const result = await work(tx)
+        await done
+        return result
+    } catch (e) {
+        if (e instanceof StorageError) throw e
+        const quota = e instanceof DOMException && e.name === 'QuotaExceededError'
+        throw new StorageError(quota ? 'Storage is full. Free up browser storage or export and delete old competitions.' : 'Saving to the local database failed.', e)
+    }
+}
+
+// IndexedDB cannot clone Vue reactive proxies, so every write goes through a plain JSON copy
+function plain<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value))
+}
+
+function splitData(id: string, data: CompetitionData): { record: StoredCompetition, participants: Participant[], athletes: Athlete[] } {
+    const { participants, athletes, ...settings } = plain(data)
+    return { record: { ...settings, id, schemaVersion: DATA_SCHEMA_VERSION }, participants, athletes }
+}
+
+function stripCompetitionId<T>(record: T & { competitionId: string }): T {
+    const { competitionId, ...rest } = record
+    return rest as T
+}
+
+function getAllFor<T>(tx: IDBTransaction, storeName: RecordStoreName, id: string): Promise<T[]> {
+    return requestToPromise(tx.objectStore(storeName).index('competitionId').getAll(id) as IDBRequest<(T & { competitionId: string })[]>)
+        .then(rows => rows.map(r => stripCompetitionId<T>(r)))
+}
+
+async function deleteAllFor(tx: IDBTransaction, storeName: RecordStoreName, id: string) {
+    const store = tx.objectStore(storeName)
+    const keys = await requestToPromise(store.index('competitionId').getAllKeys(id))
+    keys.forEach(key => store.delete(key))
+}
+
+export async function loadIndex(): Promise<CompetitionMeta[]> {
+    return withTransaction(['competitions'], 'readonly', tx =>
+        requestToPromise(tx.objectStore('competitions').getAll() as IDBRequest<CompetitionMeta[]>)
+    )
+}
+
+export async function saveMeta(meta: CompetitionMeta): Promise<void> {
+    await withTransaction(['competitions'], 'readwrite', tx => {
+        tx.objectStore('competitions').put(plain(meta))
+    })
+}
+
+/**
+ * Loads one competition, upgrading it to the current schema version (and writing the upgrade back) if needed.
+ */
+export async function loadCompetitionData(id: string): Promise<CompetitionData | null> {
+    const loaded = await withTransaction(['competitionData', 'participants', 'athletes'], 'readonly', async tx => {
+        const record = await requestToPromise(tx.objectStore('competitionData').get(id) as IDBRequest<StoredCompetition | undefined>)
+        const participants = await getAllFor<Participant>(tx, 'participants', id)
+        const athletes = await getAllFor<Athlete>(tx, 'athletes', id)
+        return { record, participants, athletes }
+    })
+    if (!loaded.record) return null
+
+    let stored: StoredRecords = { data: loaded.record, participants: loaded.participants, athletes: loaded.athletes }
+    const fromVersion = loaded.record.schemaVersion ?? 0
+
+    for (let v = fromVersion; v < DATA_SCHEMA_VERSION; v++) {
+        const migrate = DATA_MIGRATIONS[v]
+        if (!migrate) throw new StorageError(`No migration from data schema v${v}.`)
+        stored = migrate(stored)
+    }
+
+    const { id: _id, schemaVersion: _v, ...settings } = stored.data
+    const result: CompetitionData = { ...settings, participants: stored.participants, athletes: stored.athletes }
+    if (fromVersion < DATA_SCHEMA_VERSION) await replaceCompetition(id, null, result)
+    return result
+}
+
+/**
+ * Saves the competition settings plus only the participants and athletes that changed since the last save.
+ */
+export async function saveCompetitionChanges(
+    id: string,
+    settings: StoredSettings,
+    participants: RecordChanges<Participant>,
+    athletes: RecordChanges<Athlete>
+): Promise<void> {
+    await withTransaction(['competitionData', 'participants', 'athletes'], 'readwrite', tx => {
+        tx.objectStore('competitionData').put({ ...plain(settings), id, schemaVersion: DATA_SCHEMA_VERSION })
+        const changes: [RecordStoreName, RecordChanges<Participant | Athlete>][] = [['participants', participants], ['athletes', athletes]]
+        changes.forEach(([storeName, { upserts, deletedIds }]) => {
+            const store = tx.objectStore(storeName)
+            plain(upserts).forEach(r => store.put({ ...r, competitionId: id }))
+            deletedIds.forEach(rid => store.delete([id, rid]))
+        })
+    })
+}
+
+/**
+ * Writes a whole competition, replacing any participants already stored under the id.
+ * Pass meta = null to leave the index entry untouched.
+ */
+export async function replaceCompetition(id: string, meta: CompetitionMeta | null, data: CompetitionData): Promise<void> {
+    const { record, participants, athletes } = splitData(id, data)
+    await withTransaction(['competitions', 'competitionData', 'participants', 'athletes'], 'readwrite', async tx => {
+        if (meta) tx.objectStore('competitions').put({ ...plain(meta), id })
+        tx.objectStore('competitionData').put(record)
+        await deleteAllFor(tx, 'participants', id)
+        await deleteAllFor(tx, 'athletes', id)
+        participants.forEach(p => tx.objectStore('participants').put({ ...p, competitionId: id }))
+        ;(athletes || []).forEach(a => tx.objectStore('athletes').put({ ...a, competitionId: id }))
+    })
+}
+
+export async function deleteCompetitionRecords(id: string): Promise<void> {
+    await withTransaction(['competitions', 'competitionData', 'participants', 'athletes'], 'readwrite', async tx => {
+        tx.objectStore('competitions').delete(id)
+        tx.objectStore('competitionData').delete(id)
+        await deleteAllFor(tx, 'participants', id)
+        await deleteAllFor(tx, 'athletes', id)
+    })
+}
+
+/**
+ * One-time move of competitions saved by the localStorage version of the app.
+ * Legacy keys are only removed after everything has been written; returns the number of competitions moved.
+ */
+export async function migrateFromLocalStorage(): Promise<number> {
+    const rawIndex = localStorage.getItem('saved_competitions_index')
+    if (!rawIndex) return 0
+
+    let index: CompetitionMeta[] = []
+    try {
+        index = JSON.parse(rawIndex) || []
+    } catch (e) {
+        console.error("Legacy competition index is unreadable", e)
+        return 0
+    }
+
+    const existing = new Set((await loadIndex()).map(c => c.id))
+
+    for (const meta of index) {
+        if (existing.has(meta.id)) continue
+        let legacy: any = {}
+        try {
+            legacy = JSON.parse(localStorage.getItem(`comp_data_${meta.id}`) || '{}')
+        } catch (e) {
+            console.error(`Legacy data for "${meta.name}" is unreadable`, e)
+        }
+        // Store as schema v0 so it goes through the normal migration chain on first load
+        await withTransaction(['competitions', 'competitionData', 'participants'], 'readwrite', tx => {
+            const { participants = [], ...settings } = legacy
+            tx.objectStore('competitions').put({ ...meta })
+            tx.objectStore('competitionData').put({ ...settings, id: meta.id, schemaVersion: 0 })
+            const parts = tx.objectStore('participants')
+            participants.forEach((p: Participant) => parts.put({ ...p, competitionId: meta.id }))
+        })
+    }
+
+    index.forEach(meta => localStorage.removeItem(`comp_data_${meta.id}`))
+    localStorage.removeItem('saved_competitions_index')
+    return index.length
+}
@@ -0,0 +1,119 @@
+import type { Athlete, EntryStatus, Participant } from '@/config/defaults'
+import { DEFAULT_FLOOR_ID } from '@/config/defaults'
+import { splitEntryNames, normaliseAthleteName } from '@/services/athleteService'
+import { formatEntryCode } from '@/services/entryCodeService'
+import type { TimelineHeat } from '@/services/rundownService'
+
+export interface PacketEntry {
+    entryKey: string
+    code: string
+    eventCode: string
+    division: string
+    names: string[]
+    floorId: string
+    heat?: number
+    station?: number
+    time?: TimelineHeat // Missing until the entry is scheduled
+    status?: EntryStatus
+}
+
+export interface PacketAthlete {
+    key: string // Athlete id, or name and team for unlinked entries
+    name: string
+    entries: PacketEntry[] // Time order
+}
+
+export interface TeamPacket {
+    team: string
+    entries: PacketEntry[] // Time order; unscheduled entries last
+    athletes: PacketAthlete[]
+    byEvent: { eventCode: string, count: number }[] // Event order
+    byDivision: { division: string, count: number }[] // Division order
+    unscheduled: number
+    withdrawn: number // Scratched or DNS
+}
+
+function comparePacketEntries(a: PacketEntry, b: PacketEntry, eventIndex: (code: string) => number) {
+    if (a.time && b.time) return a.time.day - b.time.day || a.time.start - b.time.start || (a.station ?? 0) - (b.station ?? 0)
+    if (a.time || b.time) return a.time ? -1 : 1
+    return eventIndex(a.eventCode) - eventIndex(b.eventCode) || a.code.localeCompare(b.code)
+}
+
+/**
+ * Everything a team manager needs for one team: its entries in running order, the same
+ * entries per athlete, and entry counts per event and division.
+ * `heatTime` looks a scheduled heat up on the shared timeline.
+ */
+export function buildTeamPacket(
+    team: string,
+    participants: Participant[],
+    athletesById: Map<string, Athlete>,
+    entryCodePrefixes: Record<string, string>, // "EventCode|DivisionName" -> prefix
+    eventOrder: string[],
+    divisionOrder: string[],
+    heatTime: (floorId: string, heat: number) => TimelineHeat | undefined
+): TeamPacket {
+    const eventIndex = (code: string) => {
+        const idx = eventOrder.indexOf(code)
+        return idx === -1 ? eventOrder.length : idx
+    }
+
+    const entries = new Map<string, PacketEntry>()
+    const athletes = new Map<string, PacketAthlete>()
+    participants.forEach(p => {
+        if ((p.team || 'INDEPENDENT') !== team) return
+        const entryKey = p.groupId || p.id
+        let entry = entries.get(entryKey)
+        if (!entry) {
+            const floorId = p.floorId || DEFAULT_FLOOR_ID
+            entry = {
+                entryKey,
+                code: formatEntryCode(entryCodePrefixes[`${p.eventCode}|${p.division}`], p.entryNumber),
+                eventCode: p.eventCode,
+                division: p.division,
+                names: [],
+                floorId,
+                heat: p.heat,
+                station: p.station,
+                time: p.heat !== undefined ? heatTime(floorId, p.heat) : undefined,
+                status: p.status
+            }
+            entries.set(entryKey, entry)
+        }
+        entry.names.push(p.name)
+
+        const members = p.athleteIds && p.athleteIds.length > 0
+            ? p.athleteIds.map(id => ({ key: id, name: athletesById.get(id)?.name || p.name }))
+            : splitEntryNames(p.name).map(name => ({ key: `${name}|${normaliseAthleteName(team)}`, name }))
+        members.forEach(m => {
+            if (!athletes.has(m.key)) athletes.set(m.key, { key: m.key, name: m.name, entries: [] })
+            const athlete = athletes.get(m.key)!
+            if (!athlete.entries.includes(entry!)) athlete.entries.push(entry!)
+        })
+    })
+
+    const compare = (a: PacketEntry, b: PacketEntry) => comparePacketEntries(a, b, eventIndex)
+    const sortedEntries = Array.from(entries.values()).sort(compare)
+    const sortedAthletes = Array.from(athletes.values()).sort((a, b) => a.name.localeCompare(b.name))
+    sortedAthletes.forEach(a => a.entries.sort(compare))
+
+    const count = <K extends string>(keyOf: (e: PacketEntry) => K, order: (k: K) => number) => {
+        const counts = new Map<K, number>()
+        sortedEntries.forEach(e => counts.set(keyOf(e), (counts.get(keyOf(e)) || 0) + 1))
+        return Array.from(counts.entries()).sort((a, b) => order(a[0]) - order(b[0]) || a[0].localeCompare(b[0]))
+    }
+    const divisionIndex = (name: string) => {
+        const idx = divisionOrder.indexOf(name)
+        return idx === -1 ? divisionOrder.length : idx
+    }
+
+    return {
+        team,
+        entries: sortedEntries,
+        athletes: sortedAthletes,
+        byEvent: count(e => e.eventCode, eventIndex).map(([eventCode, n]) => ({ eventCode, count: n })),
+        byDivision: count(e => e.division, divisionIndex).map(([division, n]) => ({ division, count: n })),
+        unscheduled: sortedEntries.filter(e => e.heat === undefined).length,
+        withdrawn: sortedEntries.filter(e => e.status === 'scratched' || e.status === 'dns').length
+    }
+}
@@ -0,0 +1,194 @@
+import type { Participant, Athlete, EventConfig, DivisionConfig } from '@/config/defaults'
+import { splitEntryNames } from '@/services/athleteService'
+
+export type ValidationRuleId =
+    | 'unknown-division'
+    | 'division-not-allowed'
+    | 'group-size'
+    | 'team-quota'
+    | 'gender'
+    | 'age'
+    | 'missing-details'
+
+export type FindingSeverity = 'error' | 'warning'
+
+export interface ValidationFinding {
+    id: string // Stable for the same problem, usable as a list key
+    rule: ValidationRuleId
+    severity: FindingSeverity
+    message: string
+    eventCode: string
+    division: string
+    team: string
+    participantIds: string[] // The offending entry (all members of a group)
+    athleteId?: string // Set when the problem is about one athlete
+}
+
+export const VALIDATION_RULES: Record<ValidationRuleId, { label: string, description: string }> = {
+    'unknown-division': { label: 'Unknown division', description: 'Entry is in a division that is not configured.' },
+    'division-not-allowed': { label: 'Division not offered', description: 'Event does not allow the entry\'s division.' },
+    'group-size': { label: 'Group size', description: 'Number of athletes in the entry is outside the event\'s group size.' },
+    'team-quota': { label: 'Entries per team', description: 'Team has more entries in an event/division than allowed.' },
+    'gender': { label: 'Gender', description: 'Athlete\'s gender does not match the division.' },
+    'age': { label: 'Age', description: 'Athlete\'s age on the competition date is outside the division\'s range.' },
+    'missing-details': { label: 'Missing athlete details', description: 'Gender or date of birth is needed to check a division rule.' }
+}
+
+export interface ValidationInput {
+    participants: Participant[]
+    athletes: Athlete[]
+    events: EventConfig[]
+    divisions: DivisionConfig[]
+    competitionDate: string // YYYY-MM-DD
+}
+
+/**
+ * Age in whole years on `onDate` (both YYYY-MM-DD). Null when either date is missing or malformed.
+ */
+export function getAgeOn(dateOfBirth: string | undefined, onDate: string | undefined): number | null {
+    const dob = (dateOfBirth || '').match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    const on = (onDate || '').match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (!dob || !on) return null
+    let age = Number(on[1]) - Number(dob[1])
+    if (`${on[2]}-${on[3]}` < `${dob[2]}-${dob[3]}`) age--
+    return age
+}
+
+interface Entry {
+    key: string
+    participants: Participant[]
+    eventCode: string
+    division: string
+    team: string
+    athleteIds: string[]
+    size: number
+}
+
+// Groups share one entry; everyone else is an entry of their own
+function collectEntries(participants: Participant[]): Entry[] {
+    const byKey = new Map<string, Participant[]>()
+    participants.forEach(p => {
+        const key = p.groupId || p.id
+        const list = byKey.get(key)
+        if (list) list.push(p)
+        else byKey.set(key, [p])
+    })
+
+    return Array.from(byKey.entries()).map(([key, parts]) => {
+        const first = parts[0]!
+        const athleteIds = Array.from(new Set(parts.flatMap(p => p.athleteIds || [])))
+        const unlinkedNames = new Set(parts.filter(p => !p.athleteIds?.length).flatMap(p => splitEntryNames(p.name)))
+        return {
+            key,
+            participants: parts,
+            eventCode: first.eventCode,
+            division: first.division,
+            team: first.team || 'INDEPENDENT',
+            athleteIds,
+            size: athleteIds.length + unlinkedNames.size
+        }
+    })
+}
+
+function describeRange(min?: number, max?: number) {
+    if (min !== undefined && max !== undefined) return min === max ? `${min}` : `${min}–${max}`
+    if (min !== undefined) return `at least ${min}`
+    return `at most ${max}`
+}
+
+/**
+ * Checks every entry against the eligibility rules configured on its event and division.
+ * Rules that are not configured (or data that is missing, e.g. no competition date) are skipped.
+ */
+export function validateEntries(input: ValidationInput): ValidationFinding[] {
+    const { participants, athletes, events, divisions, competitionDate } = input
+    const findings: ValidationFinding[] = []
+    const athletesById = new Map(athletes.map(a => [a.id, a]))
+    const entries = collectEntries(participants)
+
+    const add = (entry: Entry, rule: ValidationRuleId, severity: FindingSeverity, message: string, athleteId?: string) => {
+        findings.push({
+            id: `${rule}|${entry.key}${athleteId ? `|${athleteId}` : ''}`,
+            rule, severity, message,
+            eventCode: entry.eventCode,
+            division: entry.division,
+            team: entry.team,
+            participantIds: entry.participants.map(p => p.id),
+            athleteId
+        })
+    }
+
+    // Athletes missing details some rule needs; reported once per athlete
+    const missing = new Map<string, { entry: Entry, details: Set<string> }>()
+    const noteMissing = (entry: Entry, athleteId: string, detail: string) => {
+        const known = missing.get(athleteId)
+        if (known) known.details.add(detail)
+        else missing.set(athleteId, { entry, details: new Set([detail]) })
+    }
+
+    entries.forEach(entry => {
+        const evt = events.find(e => e.code === entry.eventCode)
+        const div = divisions.find(d => d.name === entry.division)
+
+        if (!div) {
+            add(entry, 'unknown-division', 'error', `Division "${entry.division}" is not configured.`)
+        } else if (evt?.allowedDivisions?.length && !evt.allowedDivisions.includes(div.name)) {
+            add(entry, 'division-not-allowed', 'error', `${evt.code} is not offered for ${div.name}.`)
+        }
+
+        if (evt && (evt.minGroupSize !== undefined || evt.maxGroupSize !== undefined)) {
+            const tooSmall = evt.minGroupSize !== undefined && entry.size < evt.minGroupSize
+            const tooBig = evt.maxGroupSize !== undefined && entry.size > evt.maxGroupSize
+            if (tooSmall || tooBig) {
+                add(entry, 'group-size', 'error',
+                    `${evt.code} needs ${describeRange(evt.minGroupSize, evt.maxGroupSize)} athlete(s) per entry; this entry has ${entry.size}.`)
+            }
+        }
+
+        if (!div) return
+        entry.athleteIds.forEach(athleteId => {
+            const athlete = athletesById.get(athleteId)
+            if (!athlete) return
+
+            if (div.gender) {
+                if (!athlete.gender) noteMissing(entry, athleteId, 'gender')
+                else if (athlete.gender !== div.gender) {
+                    add(entry, 'gender', 'error', `${athlete.name} is ${athlete.gender === 'F' ? 'female' : 'male'} but ${div.name} is ${div.gender === 'F' ? 'female' : 'male'} only.`, athleteId)
+                }
+            }
+
+            if ((div.minAge !== undefined || div.maxAge !== undefined) && competitionDate) {
+                const age = getAgeOn(athlete.dateOfBirth, competitionDate)
+                if (age === null) noteMissing(entry, athleteId, 'date of birth')
+                else if ((div.minAge !== undefined && age < div.minAge) || (div.maxAge !== undefined && age > div.maxAge)) {
+                    add(entry, 'age', 'error', `${athlete.name} is ${age} on ${competitionDate}; ${div.name} is for ages ${describeRange(div.minAge, div.maxAge)}.`, athleteId)
+                }
+            }
+        })
+    })
+
+    missing.forEach(({ entry, details }, athleteId) => {
+        const name = athletesById.get(athleteId)?.name || ''
+        add(entry, 'missing-details', 'warning', `${name} has no ${Array.from(details).join(' or ')}, so division eligibility cannot be checked.`, athleteId)
+    })
+
+    // Per-team caps, counted over the entries in each event/division
+    const perTeam = new Map<string, Entry[]>()
+    entries.forEach(entry => {
+        const key = `${entry.eventCode}|${entry.division}|${entry.team}`
+        const list = perTeam.get(key)
+        if (list) list.push(entry)
+        else perTeam.set(key, [entry])
+    })
+    perTeam.forEach(list => {
+        const first = list[0]!
+        const max = events.find(e => e.code === first.eventCode)?.maxEntriesPerTeam
+        if (max === undefined || list.length <= max) return
+        // Entries beyond the cap (in entry order) are the ones flagged
+        list.slice(max).forEach(entry => {
+            add(entry, 'team-quota', 'error', `${entry.team} has ${list.length} entries in ${entry.eventCode} / ${entry.division}; the limit is ${max}.`)
+        })
+    })
+
+    return findings
+}
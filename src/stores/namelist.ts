@@ -1,52 +1,201 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import { DEFAULT_DIVISIONS, DEFAULT_EVENTS } from '@/config/defaults'
-import type { Participant, EventConfig, DivisionConfig } from '@/config/defaults'
-import { scheduleParticipants, addMinutes } from '@/services/rundownService'
-import type { RundownConfig } from '@/services/rundownService'
+import { DEFAULT_DIVISIONS, DEFAULT_EVENTS, DEFAULT_FLOOR_ID, DEFAULT_SCORING, DEFAULT_LIVE_STATE } from '@/config/defaults'
+import type {
+    Participant, Athlete, EventConfig, DivisionConfig, FloorConfig, ScheduleBlock, SessionConfig, EntryStatus, EntryResult, ScoringConfig, ScoringKind, LiveState, LiveHeatLog,
+    CompetitionData, CompetitionMeta
+} from '@/config/defaults'
+import {
+    scheduleParticipants, findAthleteConflicts, findHeatIssues, resolveFloorId, resolveSessionId, buildTimeline, formatMinutes, heatKey,
+    timeToMinutes, sortSessions, getSessionDay, findFreeStation, ENTRY_STATUS_LABELS
+} from '@/services/rundownService'
+import type { RundownConfig, ScheduleWarning, ScheduleTimeline, HeatIssue } from '@/services/rundownService'
+import { createBundle } from '@/services/competitionBundle'
+import { linkParticipantAthletes, countAthletes, normaliseAthleteName } from '@/services/athleteService'
+import { validateEntries } from '@/services/validationService'
+import { rankResults, computeTeamStandings, computeOverallStandings, getScoringKind } from '@/services/resultsService'
+import { projectLiveTimeline } from '@/services/liveService'
+import { assignEntryNumbers, planRenumber, formatEntryCode, generateEntryCodes, findDuplicatePrefixes, findEntryNumberClashes } from '@/services/entryCodeService'
+import type { RenumberChange } from '@/services/entryCodeService'
+import type { ValidationFinding } from '@/services/validationService'
+import {
+    loadIndex, saveMeta, loadCompetitionData, saveCompetitionChanges, replaceCompetition,
+    deleteCompetitionRecords, migrateFromLocalStorage, StorageError
+} from '@/services/storageService'
+import type { RecordChanges } from '@/services/storageService'
+import type { CompetitionBundle } from '@/services/competitionBundle'
 
-let isAutoSaving = false
+const HISTORY_LIMIT = 50 // Undo steps kept per competition
+const HISTORY_MERGE_MS = 3000 // Repeated edits with the same merge key within this window share one undo step
+
+export interface HistoryEntry {
+    description: string
+    at: number // epoch ms
+    snapshot: string // JSON of the undoable state BEFORE (undo stack) or AFTER (redo stack) the change
+    mergeKey?: string
+}
+
+// What the entry editor submits; one participant is kept per name, several names make a group
+export interface EntryDraft {
+    names: string[]
+    team: string
+    eventCode: string
+    division: string
+    notes?: string
+}
 
 export const useNamelistStore = defineStore('namelist', () => {
     const events = ref<EventConfig[]>([...DEFAULT_EVENTS])
     const divisions = ref<DivisionConfig[]>([...DEFAULT_DIVISIONS])
     const participants = ref<Participant[]>([])
+    const athletes = ref<Athlete[]>([])
     const entryCodes = ref<Record<string, string>>({})
+    const entryCodeScheme = ref('')
     const eventStartTimes = ref<Record<string, string>>({})
+    const floors = ref<FloorConfig[]>([]) // Empty = single floor driven by the per-event station counts
+    const scheduleBlocks = ref<ScheduleBlock[]>([])
+    const sessions = ref<SessionConfig[]>([]) // Empty = everything runs in one session
+    const results = ref<EntryResult[]>([])
+    const scoring = ref<ScoringConfig>({ ...DEFAULT_SCORING })
+    const live = ref<LiveState>({ ...DEFAULT_LIVE_STATE, heats: [] })
     const competitionTitle = ref<string>('COMPETITION CHAMPIONSHIPS')
     const competitionDate = ref<string>(new Date().toISOString().split('T')[0] || '')
-    const history = ref<Array<{ description: string, undo: () => void }>>([])
+    const history = ref<HistoryEntry[]>([]) // Undo stack, oldest first
+    const redoStack = ref<HistoryEntry[]>([]) // Most recently undone last
+    let historyBatchDepth = 0
+
+    // Everything an undo step restores. Competition metadata (title/date) is managed on the landing page.
+    function captureState(): string {
+        return JSON.stringify({
+            events: events.value, divisions: divisions.value, participants: participants.value,
+            athletes: athletes.value, entryCodes: entryCodes.value, entryCodeScheme: entryCodeScheme.value, eventStartTimes: eventStartTimes.value,
+            eventRundownConfigs: eventRundownConfigs.value, floors: floors.value, scheduleBlocks: scheduleBlocks.value,
+            sessions: sessions.value, results: results.value, scoring: scoring.value, live: live.value
+        })
+    }
 
-    function pushHistory(description: string, undoAction: () => void) {
-        history.value = [{ description, undo: undoAction }]
+    function restoreState(snapshot: string) {
+        const state = JSON.parse(snapshot)
+        events.value = state.events
+        divisions.value = state.divisions
+        participants.value = state.participants
+        athletes.value = state.athletes
+        entryCodes.value = state.entryCodes
+        entryCodeScheme.value = state.entryCodeScheme
+        eventStartTimes.value = state.eventStartTimes
+        eventRundownConfigs.value = state.eventRundownConfigs
+        floors.value = state.floors
+        scheduleBlocks.value = state.scheduleBlocks
+        sessions.value = state.sessions
+        results.value = state.results
+        scoring.value = state.scoring
+        live.value = state.live
+    }
+
+    // Starts an undo step for the mutation about to happen. No-op inside a withHistory batch.
+    function recordHistory(description: string, mergeKey?: string) {
+        if (historyBatchDepth > 0) return
+        const last = history.value[history.value.length - 1]
+        redoStack.value = []
+        if (mergeKey && last?.mergeKey === mergeKey && Date.now() - last.at < HISTORY_MERGE_MS) {
+            last.at = Date.now()
+            return
+        }
+        history.value.push({ description, at: Date.now(), snapshot: captureState(), mergeKey })
+        if (history.value.length > HISTORY_LIMIT) history.value.splice(0, history.value.length - HISTORY_LIMIT)
+    }
+
+    /**
+     * Runs a mutation as one undo step. Nested calls (e.g. generateRundown -> clearRundown)
+     * fold into the outermost step.
+     */
+    function withHistory<T>(description: string, mutate: () => T, mergeKey?: string): T {
+        recordHistory(description, mergeKey)
+        historyBatchDepth++
+        try {
+            return mutate()
+        } finally {
+            historyBatchDepth--
+        }
     }
 
     function undo() {
-        const action = history.value.pop()
-        if (action) action.undo()
+        const entry = history.value.pop()
+        if (!entry) return
+        redoStack.value.push({ description: entry.description, at: Date.now(), snapshot: captureState() })
+        restoreState(entry.snapshot)
+        saveCurrentCompetition()
+    }
+
+    function redo() {
+        const entry = redoStack.value.pop()
+        if (!entry) return
+        history.value.push({ description: entry.description, at: Date.now(), snapshot: captureState() })
+        restoreState(entry.snapshot)
+        saveCurrentCompetition()
+    }
+
+    // Undo every step after `index` (so history.length === index afterwards)
+    function undoTo(index: number) {
+        while (history.value.length > index && history.value.length > 0) undo()
+    }
+
+    function clearHistory() {
+        history.value = []
+        redoStack.value = []
+    }
+
+    // Links entries to athlete records, creating athletes for names not seen before
+    function linkAthletes(list: Participant[]): Participant[] {
+        const linked = linkParticipantAthletes(list, athletes.value)
+        athletes.value = linked.athletes
+        return linked.participants
+    }
+
+    // Drops athletes no longer entered in anything
+    function pruneAthletes() {
+        const used = new Set(participants.value.flatMap(p => p.athleteIds || []))
+        athletes.value = athletes.value.filter(a => used.has(a.id))
+    }
+
+    // Gives new (or moved) entries the next free number in their event/division
+    function numberEntries() {
+        participants.value = assignEntryNumbers(participants.value)
     }
 
     function addParticipant(p: Participant) {
-        participants.value.push(p)
+        recordHistory(`Add ${p.name}`)
+        participants.value.push(...linkAthletes([p]))
+        numberEntries()
         saveCurrentCompetition()
     }
 
     function clearParticipants() {
+        recordHistory('Clear all participants')
         participants.value = []
+        athletes.value = []
+        results.value = []
         saveCurrentCompetition()
     }
 
 
     function wipeAllData() {
+        recordHistory('Wipe all participants')
         participants.value = []
+        athletes.value = []
+        results.value = []
         saveCurrentCompetition()
     }
 
     function deleteDivision(divisionName: string) {
+        recordHistory(`Delete division ${divisionName}`)
         const idx = divisions.value.findIndex(d => d.name === divisionName)
         if (idx !== -1) divisions.value.splice(idx, 1)
 
+        const removedKeys = new Set(participants.value.filter(p => p.division === divisionName).map(p => p.groupId || p.id))
         participants.value = participants.value.filter(p => p.division !== divisionName)
+        results.value = results.value.filter(r => !removedKeys.has(r.entryKey))
+        pruneAthletes()
 
         events.value.forEach(evt => {
             if (evt.allowedDivisions) {
@@ -57,6 +206,7 @@ export const useNamelistStore = defineStore('namelist', () => {
     }
 
     function renameDivision(oldName: string, newName: string) {
+        recordHistory(`Rename division ${oldName} → ${newName}`)
         const div = divisions.value.find(d => d.name === oldName)
         if (div) div.name = newName
 
@@ -81,29 +231,429 @@ export const useNamelistStore = defineStore('namelist', () => {
         saveCurrentCompetition()
     }
 
+    function addEvent(code: string, name: string) {
+        recordHistory(`Add event ${code}`)
+        events.value.push({ code, name })
+        saveCurrentCompetition()
+    }
+
+    function removeEvent(code: string) {
+        recordHistory(`Remove event ${code}`)
+        events.value = events.value.filter(e => e.code !== code)
+        saveCurrentCompetition()
+    }
+
+    function moveEvent(fromIndex: number, toIndex: number) {
+        const item = events.value[fromIndex]
+        if (!item || fromIndex === toIndex) return
+        recordHistory(`Reorder event ${item.code}`)
+        events.value.splice(fromIndex, 1)
+        events.value.splice(toIndex, 0, item)
+        saveCurrentCompetition()
+    }
+
+    function toggleEventDivision(eventCode: string, divisionName: string) {
+        const evt = events.value.find(e => e.code === eventCode)
+        if (!evt) return
+        recordHistory(`Toggle ${divisionName} for ${eventCode}`)
+
+        // If it's the first time toggling, initialize with all divisions
+        if (!evt.allowedDivisions) {
+            evt.allowedDivisions = divisions.value.map(d => d.name)
+        }
+
+        const index = evt.allowedDivisions.indexOf(divisionName)
+        if (index === -1) evt.allowedDivisions.push(divisionName)
+        else evt.allowedDivisions.splice(index, 1)
+        saveCurrentCompetition()
+    }
+
+    function setDivisionPrefix(name: string, prefix: string) {
+        const div = divisions.value.find(d => d.name === name)
+        if (!div) return
+        recordHistory(`Set ${name} prefix = ${prefix || '(none)'}`, `division-prefix|${name}`)
+        div.prefix = prefix
+        saveCurrentCompetition()
+    }
+
+    function addDivision(name: string, prefix = '') {
+        recordHistory(`Add division ${name}`)
+        divisions.value.push({ name, prefix })
+        saveCurrentCompetition()
+    }
+
+    function moveDivision(fromIndex: number, toIndex: number) {
+        const item = divisions.value[fromIndex]
+        if (!item || fromIndex === toIndex) return
+        recordHistory(`Reorder division ${item.name}`)
+        divisions.value.splice(fromIndex, 1)
+        divisions.value.splice(toIndex, 0, item)
+        saveCurrentCompetition()
+    }
+
+    // Eligibility rule fields; `undefined` clears a rule
+    function updateEventRules(code: string, updates: Partial<Pick<EventConfig, 'minGroupSize' | 'maxGroupSize' | 'maxEntriesPerTeam' | 'scoring'>>) {
+        const evt = events.value.find(e => e.code === code)
+        if (!evt) return
+        recordHistory(`Update rules for ${code}`, `event-rules|${code}`)
+        Object.assign(evt, updates)
+        saveCurrentCompetition()
+    }
+
+    function updateDivisionRules(name: string, updates: Pick<DivisionConfig, 'gender' | 'minAge' | 'maxAge'>) {
+        const div = divisions.value.find(d => d.name === name)
+        if (!div) return
+        recordHistory(`Update rules for ${name}`, `division-rules|${name}`)
+        Object.assign(div, updates)
+        saveCurrentCompetition()
+    }
+
     function deleteTeam(teamName: string) {
+        recordHistory(`Delete team ${teamName}`)
+        const removedKeys = new Set(participants.value.filter(p => p.team === teamName).map(p => p.groupId || p.id))
         participants.value = participants.value.filter(p => p.team !== teamName)
+        results.value = results.value.filter(r => !removedKeys.has(r.entryKey))
+        pruneAthletes()
         saveCurrentCompetition()
     }
 
-    function upsertParticipants(list: Participant[]) {
-        const incomingIds = new Set(list.map(p => p.id))
-        participants.value = participants.value.filter(p => !incomingIds.has(p.id))
-        participants.value.push(...list)
+    /**
+     * Adds or replaces participants (matched by id). Replaced ones keep their place; new ones go at the end.
+     * `newAthletes` are added or replaced first, so the list can refer to them.
+     */
+    function upsertParticipants(list: Participant[], description = `Import ${list.length} participant(s)`, newAthletes: Athlete[] = []) {
+        recordHistory(description)
+        const incomingAthleteIds = new Set(newAthletes.map(a => a.id))
+        athletes.value = [...athletes.value.filter(a => !incomingAthleteIds.has(a.id)), ...newAthletes]
+        // Updated rows stay where they are; new rows go at the end
+        const incoming = new Map(linkAthletes(list).map(p => [p.id, p]))
+        const before = participants.value
+        const updated = participants.value.map(p => {
+            const next = incoming.get(p.id)
+            incoming.delete(p.id)
+            return next || p
+        })
+        participants.value = [...updated, ...incoming.values()]
+        carryResults(before)
+        numberEntries()
         saveCurrentCompetition()
     }
 
+    // --- Entry editing ---
+    // An entry is one participant, or all participants sharing a groupId; `entryKey` is groupId || id
+
+    function getEntryParticipants(entryKey: string) {
+        return participants.value.filter(p => (p.groupId || p.id) === entryKey)
+    }
+
+    /**
+     * Results are keyed by entry. When an edit re-keys entries (a group formed, regrouped or
+     * dissolved), each orphaned result follows its members if they all ended up in one entry
+     * that has no result of its own.
+     */
+    function carryResults(before: Participant[]) {
+        const currentKeys = new Map(participants.value.map(p => [p.id, p.groupId || p.id]))
+        const liveKeys = new Set(currentKeys.values())
+        const taken = new Set(results.value.map(r => r.entryKey).filter(k => liveKeys.has(k)))
+        let changed = false
+        const carried = results.value.map(r => {
+            if (liveKeys.has(r.entryKey)) return r
+            const keys = new Set(before.filter(p => (p.groupId || p.id) === r.entryKey).map(p => currentKeys.get(p.id)))
+            const [key] = keys
+            if (keys.size !== 1 || !key || taken.has(key)) return r
+            taken.add(key)
+            changed = true
+            return { ...r, entryKey: key }
+        })
+        if (changed) results.value = carried
+    }
+
+    function moveResult(fromKey: string, toKey: string) {
+        if (fromKey === toKey || !results.value.some(r => r.entryKey === fromKey)) return
+        results.value = results.value
+            .filter(r => r.entryKey !== toKey)
+            .map(r => r.entryKey === fromKey ? { ...r, entryKey: toKey } : r)
+    }
+
+    function clearSchedule(p: Participant) {
+        p.floorId = undefined
+        p.heat = undefined
+        p.station = undefined
+        p.scheduleTime = undefined
+        p.heatLocked = undefined
+    }
+
+    // Group members share the first member's slot in the rundown
+    function copySchedule(from: Participant | undefined, to: Participant) {
+        to.floorId = from?.floorId
+        to.heat = from?.heat
+        to.station = from?.station
+        to.scheduleTime = from?.scheduleTime
+        to.heatLocked = from?.heatLocked
+    }
+
+    function createEntry(draft: EntryDraft) {
+        const names = draft.names.map(n => n.trim()).filter(Boolean)
+        if (names.length === 0) return null
+        const groupId = names.length > 1 ? crypto.randomUUID() : undefined
+        const created: Participant[] = names.map(name => ({
+            id: crypto.randomUUID(), name, team: draft.team, eventCode: draft.eventCode, division: draft.division,
+            notes: draft.notes || undefined, groupId
+        }))
+        withHistory(`Add entry ${names.join(' / ')} (${draft.eventCode} / ${draft.division})`, () => {
+            participants.value.push(...linkAthletes(created))
+            numberEntries()
+            saveCurrentCompetition()
+        })
+        return groupId || created[0]!.id
+    }
+
+    /**
+     * Applies the editor's changes to every member of an entry. Names map to members in order:
+     * extra names join the group, missing ones leave the entry. Moving to another division
+     * takes the next free number there; moving to another event also drops the rundown slot.
+     */
+    function updateEntry(entryKey: string, draft: EntryDraft) {
+        const members = getEntryParticipants(entryKey)
+        const names = draft.names.map(n => n.trim()).filter(Boolean)
+        const first = members[0]
+        if (!first || names.length === 0) return
+
+        withHistory(`Edit entry ${first.name}`, () => {
+            const movedEvent = draft.eventCode !== first.eventCode
+            const moved = movedEvent || draft.division !== first.division
+            const groupId = names.length > 1 ? (first.groupId || crypto.randomUUID()) : undefined
+            const removedIds = new Set(members.slice(names.length).map(m => m.id))
+
+            const kept = members.slice(0, names.length).map((m, i) => {
+                const relink = m.name !== names[i] || m.team !== draft.team
+                const updated: Participant = {
+                    ...m, name: names[i]!, team: draft.team, eventCode: draft.eventCode, division: draft.division,
+                    notes: draft.notes || undefined, groupId,
+                    athleteIds: relink ? undefined : m.athleteIds,
+                    entryNumber: moved ? undefined : m.entryNumber
+                }
+                if (movedEvent) clearSchedule(updated)
+                return updated
+            })
+            const added: Participant[] = names.slice(members.length).map(name => {
+                const p: Participant = {
+                    id: crypto.randomUUID(), name, team: draft.team, eventCode: draft.eventCode, division: draft.division,
+                    notes: draft.notes || undefined, groupId, entryNumber: kept[0]!.entryNumber,
+                    status: kept[0]!.status, statusReason: kept[0]!.statusReason, statusAt: kept[0]!.statusAt
+                }
+                copySchedule(kept[0], p)
+                return p
+            })
+
+            const keptById = new Map(kept.map(p => [p.id, p]))
+            moveResult(entryKey, groupId || first.id)
+            participants.value = participants.value
+                .filter(p => !removedIds.has(p.id))
+                .map(p => keptById.get(p.id) || p)
+            participants.value.push(...added)
+            participants.value = linkAthletes(participants.value)
+            pruneAthletes()
+            numberEntries()
+            saveCurrentCompetition()
+        })
+    }
+
+    function moveEntry(entryKey: string, division: string) {
+        const members = getEntryParticipants(entryKey)
+        const first = members[0]
+        if (!first || first.division === division) return
+        withHistory(`Move ${members.map(m => m.name).join(' / ')} to ${division}`, () => {
+            updateEntry(entryKey, { names: members.map(m => m.name), team: first.team, eventCode: first.eventCode, division, notes: first.notes })
+        })
+    }
+
+    function deleteEntry(entryKey: string) {
+        const members = getEntryParticipants(entryKey)
+        if (members.length === 0) return
+        recordHistory(`Delete entry ${members.map(m => m.name).join(' / ')}`)
+        const ids = new Set(members.map(m => m.id))
+        participants.value = participants.value.filter(p => !ids.has(p.id))
+        results.value = results.value.filter(r => r.entryKey !== entryKey)
+        pruneAthletes()
+        saveCurrentCompetition()
+    }
+
+    /**
+     * Merges entries of the same event/division into one group. The first entry keeps
+     * its code and rundown slot; the others' codes are freed. A result recorded for one of
+     * them moves to the joined entry. Returns false if they don't match, or if more than
+     * one of them has a result.
+     */
+    function joinEntries(entryKeys: string[]) {
+        const entries = entryKeys.map(getEntryParticipants).filter(m => m.length > 0)
+        const lead = entries[0]?.[0]
+        if (!lead || entries.length < 2) return false
+        if (entries.some(m => m[0]!.eventCode !== lead.eventCode || m[0]!.division !== lead.division)) return false
+        const scored = entries.map(m => m[0]!.groupId || m[0]!.id).filter(key => getEntryResult(key))
+        if (scored.length > 1) return false
+
+        const names = entries.map(m => m.map(p => p.name).join(' / ')).join(' + ')
+        recordHistory(`Join ${names}`)
+        const groupId = lead.groupId || crypto.randomUUID()
+        const joined = new Set(entries.flat().map(p => p.id))
+        participants.value = participants.value.map(p => {
+            if (!joined.has(p.id)) return p
+            const updated = { ...p, groupId, entryNumber: lead.entryNumber }
+            copySchedule(lead, updated)
+            return updated
+        })
+        if (scored[0]) moveResult(scored[0], groupId)
+        saveCurrentCompetition()
+        return true
+    }
+
+    // Takes one member out of its group as an entry of its own (new code, not scheduled).
+    // The group's result stays with the members left behind.
+    function splitEntryMember(participantId: string) {
+        const p = participants.value.find(x => x.id === participantId)
+        if (!p?.groupId) return
+        const groupId = p.groupId
+        recordHistory(`Split ${p.name} from group`)
+        const remaining = participants.value.filter(x => x.groupId === groupId && x.id !== participantId)
+        participants.value = participants.value.map(x => {
+            if (x.id === participantId) {
+                const single = { ...x, groupId: undefined, entryNumber: undefined }
+                clearSchedule(single)
+                return single
+            }
+            // A group of one is just a single entry
+            if (remaining.length === 1 && x.id === remaining[0]!.id) return { ...x, groupId: undefined }
+            return x
+        })
+        if (remaining.length === 1) moveResult(groupId, remaining[0]!.id)
+        numberEntries()
+        saveCurrentCompetition()
+    }
+
+    const athletesById = computed(() => new Map(athletes.value.map(a => [a.id, a])))
+
+    function getAthleteEntries(athleteId: string) {
+        return participants.value.filter(p => p.athleteIds?.includes(athleteId))
+    }
+
+    // Renaming an athlete renames every entry they are linked to
+    function updateAthlete(id: string, updates: Partial<Omit<Athlete, 'id'>>) {
+        const athlete = athletes.value.find(a => a.id === id)
+        if (!athlete) return
+        withHistory(`Update athlete ${athlete.name}`, () => {
+            Object.assign(athlete, updates)
+            if (updates.name !== undefined) {
+                participants.value = participants.value.map(p => {
+                    if (!p.athleteIds?.includes(id)) return p
+                    const name = p.athleteIds.map(aid => athletesById.value.get(aid)?.name || '').filter(Boolean).join('\n')
+                    return { ...p, name }
+                })
+            }
+            athletes.value = [...athletes.value]
+            saveCurrentCompetition()
+        })
+    }
+
+    // Rewrites entries to point at `keepId` instead of `mergeIds`, filling details the kept athlete lacks
+    function mergeAthletesNow(keepId: string, mergeIds: string[]) {
+        const keep = athletes.value.find(a => a.id === keepId)
+        const merged = new Set(mergeIds.filter(id => id !== keepId))
+        if (!keep || merged.size === 0) return
+        athletes.value.filter(a => merged.has(a.id)).forEach(a => {
+            keep.gender ??= a.gender
+            keep.dateOfBirth ??= a.dateOfBirth
+            keep.federationId ??= a.federationId
+        })
+        athletes.value = athletes.value.filter(a => !merged.has(a.id))
+        participants.value = participants.value.map(p => {
+            // Entries already on the kept athlete are renamed too, so every entry reads the same
+            if (!p.athleteIds?.some(id => merged.has(id) || id === keepId)) return p
+            const athleteIds = Array.from(new Set(p.athleteIds.map(id => merged.has(id) ? keepId : id)))
+            const name = athleteIds.map(id => athletesById.value.get(id)?.name || '').filter(Boolean).join('\n')
+            return { ...p, athleteIds, name }
+        })
+    }
+
+    function mergeAthletes(keepId: string, mergeIds: string[]) {
+        const keep = athletes.value.find(a => a.id === keepId)
+        if (!keep) return
+        withHistory(`Merge ${mergeIds.length} athlete(s) into ${keep.name}`, () => {
+            mergeAthletesNow(keepId, mergeIds)
+            saveCurrentCompetition()
+        })
+    }
+
+    /**
+     * Renames teams `mergeNames` to `keepName` on every entry and athlete. Athletes that end up
+     * with the same name in the merged team are merged too.
+     */
+    function mergeTeams(keepName: string, mergeNames: string[]) {
+        const merged = new Set(mergeNames.filter(n => n !== keepName))
+        if (merged.size === 0) return
+        withHistory(`Merge team(s) ${Array.from(merged).join(', ')} into ${keepName}`, () => {
+            participants.value = participants.value.map(p => merged.has(p.team) ? { ...p, team: keepName } : p)
+            athletes.value = athletes.value.map(a => merged.has(a.team) ? { ...a, team: keepName } : a)
+
+            const byName = new Map<string, string[]>()
+            athletes.value.filter(a => a.team === keepName).forEach(a => {
+                const key = normaliseAthleteName(a.name)
+                byName.set(key, [...(byName.get(key) || []), a.id])
+            })
+            byName.forEach(([first, ...rest]) => {
+                if (first && rest.length > 0) mergeAthletesNow(first, rest)
+            })
+            saveCurrentCompetition()
+        })
+    }
+
     function setEntryCode(eventCode: string, divisionName: string, code: string) {
         const key = `${eventCode}|${divisionName}`
+        recordHistory(`Set entry code ${eventCode} / ${divisionName} = ${code || '(none)'}`, `entry-code|${key}`)
         entryCodes.value[key] = code
+        saveCurrentCompetition()
+    }
+
+    // Prefixes the current scheme would produce; cells that differ from these are manual overrides
+    const schemeEntryCodes = computed(() => entryCodeScheme.value ? generateEntryCodes(entryCodeScheme.value, events.value, divisions.value) : {})
+
+    const entryCodeOverrides = computed(() => {
+        if (!entryCodeScheme.value) return new Set<string>()
+        return new Set(Object.keys(schemeEntryCodes.value).filter(key => (entryCodes.value[key] || '') !== schemeEntryCodes.value[key]))
+    })
+
+    const duplicateEntryCodes = computed(() => findDuplicatePrefixes(entryCodes.value, events.value, divisions.value))
+
+    // Entries sharing a number keep it until the division is renumbered
+    const entryNumberClashes = computed(() => findEntryNumberClashes(participants.value))
+
+    /**
+     * Regenerates every event/division prefix from `scheme`.
+     * With `keepOverrides`, cells edited away from the previous scheme keep their value.
+     */
+    function applyEntryCodeScheme(scheme: string, keepOverrides: boolean) {
+        const kept = keepOverrides ? entryCodeOverrides.value : new Set<string>()
+        recordHistory(`Apply entry code scheme ${scheme}`)
+        const generated = generateEntryCodes(scheme, events.value, divisions.value)
+        kept.forEach(key => {
+            generated[key] = entryCodes.value[key] || ''
+        })
+        entryCodes.value = { ...entryCodes.value, ...generated }
+        entryCodeScheme.value = scheme
+        saveCurrentCompetition()
     }
 
     function getEntryCode(eventCode: string, divisionName: string) {
         return entryCodes.value[`${eventCode}|${divisionName}`] || ''
     }
 
+    // '' unpins the event
     function setEventStartTime(eventCode: string, time: string) {
-        eventStartTimes.value[eventCode] = time
+        recordHistory(time ? `Pin ${eventCode} start to ${time}` : `Unpin ${eventCode} start`, `start-time|${eventCode}`)
+        if (time) eventStartTimes.value[eventCode] = time
+        else delete eventStartTimes.value[eventCode]
+        applyTimelineTimes()
+        saveCurrentCompetition()
     }
 
     function getEventStartTime(eventCode: string) {
@@ -120,7 +670,9 @@ export const useNamelistStore = defineStore('namelist', () => {
             return {
                 event: evt,
                 divisions: filteredDivs.map(div => {
-                    const parts = participants.value.filter(p => p.eventCode === evt.code && p.division === div.name)
+                    const parts = participants.value
+                        .filter(p => p.eventCode === evt.code && p.division === div.name)
+                        .sort((a, b) => (a.entryNumber || 0) - (b.entryNumber || 0))
                     const code = getEntryCode(evt.code, div.name)
                     const processedGroups = new Set<string>()
                     let uniqueEntryCount = 0
@@ -153,190 +705,618 @@ export const useNamelistStore = defineStore('namelist', () => {
         })
         return teamNamesInOrder.map(teamName => {
             const parts = groups[teamName] || []
-            const uniqueNames = new Set<string>()
-            parts.forEach(p => {
-                p.name.split(/[\r\n,]+/).forEach(n => {
-                    const cleanName = n.trim()
-                    if (cleanName.length > 1) uniqueNames.add(cleanName)
-                })
-            })
-            return { name: teamName, participants: parts, count: uniqueNames.size }
+            return { name: teamName, participants: parts, count: countAthletes(parts) }
         })
     })
 
-    const defaultRundownConfig = { startTime: '09:00', heatDuration: 2, stationCount: 12, rowsPerPage: 30 }
-    const eventRundownConfigs = ref<Record<string, typeof defaultRundownConfig>>({ 'GLOBAL': { ...defaultRundownConfig } })
+    const defaultRundownConfig: RundownConfig = { startTime: '09:00', heatDuration: 2, stationCount: 12, rowsPerPage: 30, minRestHeats: 0, minRestMinutes: 0 }
+    const eventRundownConfigs = ref<Record<string, RundownConfig>>({ 'GLOBAL': { ...defaultRundownConfig } })
 
-    function getRundownConfig(eventCode?: string | null) {
+    function getRundownConfig(eventCode?: string | null): RundownConfig {
         const key = eventCode?.trim() || 'GLOBAL'
         return eventRundownConfigs.value[key] || eventRundownConfigs.value['GLOBAL'] || defaultRundownConfig
     }
 
-    function updateRundownConfig(config: typeof defaultRundownConfig, eventCode?: string | null) {
+    function updateRundownConfig(config: RundownConfig, eventCode?: string | null) {
         const key = eventCode ? eventCode.trim() : 'GLOBAL'
+        recordHistory(`Change rundown settings (${key})`, `rundown-config|${key}`)
         eventRundownConfigs.value[key] = { ...config }
+        applyTimelineTimes()
         saveCurrentCompetition()
     }
 
-    function clearRundown(eventCode?: string) {
+    function addFloor(name: string, stationCount: number, startTime: string) {
+        const floor: FloorConfig = { id: crypto.randomUUID(), name, stationCount, startTime }
+        recordHistory(`Add floor ${name}`)
+        floors.value.push(floor)
+        saveCurrentCompetition()
+        return floor.id
+    }
+
+    function updateFloor(id: string, updates: Partial<Omit<FloorConfig, 'id'>>) {
+        const floor = floors.value.find(f => f.id === id)
+        if (!floor) return
+        recordHistory(`Edit floor ${floor.name}`, `floor|${id}`)
+        Object.assign(floor, updates)
+        applyTimelineTimes()
+        saveCurrentCompetition()
+    }
+
+    function removeFloor(id: string) {
+        recordHistory(`Remove floor ${getFloorName(id)}`)
+        floors.value = floors.value.filter(f => f.id !== id)
+        Object.values(eventRundownConfigs.value).forEach(conf => {
+            if (conf.floorId === id) delete conf.floorId
+        })
+        saveCurrentCompetition()
+    }
+
+    function getEventFloorId(eventCode: string) {
+        return resolveFloorId(eventCode, floors.value, getRundownConfig)
+    }
+
+    function getFloorName(floorId?: string) {
+        return floors.value.find(f => f.id === (floorId || DEFAULT_FLOOR_ID))?.name || ''
+    }
+
+    function addSession(label: string, date: string, startTime: string) {
+        const session: SessionConfig = { id: crypto.randomUUID(), label, date, startTime }
+        recordHistory(`Add session ${label}`)
+        sessions.value.push(session)
+        applyTimelineTimes()
+        saveCurrentCompetition()
+        return session.id
+    }
+
+    function updateSession(id: string, updates: Partial<Omit<SessionConfig, 'id'>>) {
+        const session = sessions.value.find(s => s.id === id)
+        if (!session) return
+        recordHistory(`Edit session ${session.label}`, `session|${id}`)
+        Object.assign(session, updates)
+        applyTimelineTimes()
+        saveCurrentCompetition()
+    }
+
+    function removeSession(id: string) {
+        recordHistory(`Remove session ${getSessionName(id)}`)
+        sessions.value = sessions.value.filter(s => s.id !== id)
+        Object.values(eventRundownConfigs.value).forEach(conf => {
+            if (conf.sessionId === id) delete conf.sessionId
+        })
+        applyTimelineTimes()
+        saveCurrentCompetition()
+    }
+
+    function getEventSessionId(eventCode: string) {
+        return resolveSessionId(eventCode, sessions.value, getRundownConfig)
+    }
+
+    function getSessionName(sessionId?: string) {
+        return sessions.value.find(s => s.id === sessionId)?.label || ''
+    }
+
+    function addScheduleBlock(block: Omit<ScheduleBlock, 'id'>) {
+        recordHistory(`Add ${block.label}`)
+        const id = crypto.randomUUID()
+        scheduleBlocks.value.push({ ...block, id })
+        applyTimelineTimes()
+        saveCurrentCompetition()
+        return id
+    }
+
+    function updateScheduleBlock(id: string, updates: Partial<Omit<ScheduleBlock, 'id'>>) {
+        const block = scheduleBlocks.value.find(b => b.id === id)
+        if (!block) return
+        recordHistory(`Edit ${block.label}`, `schedule-block|${id}`)
+        Object.assign(block, updates)
+        applyTimelineTimes()
+        saveCurrentCompetition()
+    }
+
+    function removeScheduleBlock(id: string) {
+        const block = scheduleBlocks.value.find(b => b.id === id)
+        if (!block) return
+        recordHistory(`Remove ${block.label}`)
+        scheduleBlocks.value = scheduleBlocks.value.filter(b => b.id !== id)
+        applyTimelineTimes()
+        saveCurrentCompetition()
+    }
+
+    // Heat and event times after breaks, fixed blocks and pinned starts; the one source for screen, print and CSV
+    const scheduleTimeline = computed<ScheduleTimeline>(() => buildTimeline(participants.value, getRundownConfig, {
+        floors: floors.value, sessions: sessions.value, blocks: scheduleBlocks.value, eventStartTimes: eventStartTimes.value
+    }))
+
+    // Writes the timeline's heat times into the stored schedule times (rest checks and athlete pages read those)
+    function applyTimelineTimes() {
+        const heats = scheduleTimeline.value.heats
+        let changed = false
         participants.value.forEach(p => {
-            if (!eventCode || p.eventCode === eventCode) {
-                p.heat = undefined
-                p.station = undefined
-                p.scheduleTime = undefined
+            if (p.heat === undefined) return
+            const heat = heats.get(heatKey(p.floorId, p.heat))
+            const time = heat && formatMinutes(heat.start)
+            if (time && time !== p.scheduleTime) {
+                p.scheduleTime = time
+                changed = true
             }
         })
+        if (changed) participants.value = [...participants.value] // Trigger reactivity
+    }
+
+    function clearRundown(eventCode?: string) {
+        recordHistory(eventCode ? `Clear rundown (${eventCode})` : 'Clear rundown')
+        participants.value.forEach(p => {
+            if (!eventCode || p.eventCode === eventCode) clearSchedule(p)
+        })
         participants.value = [...participants.value] // Trigger reactivity
         saveCurrentCompetition()
     }
 
     function generateRundown(targetEventCode?: string) {
-        let startHeat = 1
-        let startTime: string | undefined = undefined
-
-        if (targetEventCode) {
-            const otherParts = participants.value.filter(p => p.eventCode !== targetEventCode && p.heat !== undefined)
-            if (otherParts.length > 0) {
-                const maxHeat = Math.max(...otherParts.map(p => p.heat || 0))
-                startHeat = maxHeat + 1
-                const sortedByHeat = [...otherParts].sort((a, b) => (a.heat || 0) - (b.heat || 0))
-                const lastP = sortedByHeat[sortedByHeat.length - 1]
-                if (lastP?.scheduleTime) {
-                    const lastConf = getRundownConfig(lastP.eventCode)
-                    startTime = addMinutes(lastP.scheduleTime, lastConf.heatDuration ?? 2)
+        return withHistory(targetEventCode ? `Generate rundown (${targetEventCode})` : 'Generate rundown', () => generateRundownNow(targetEventCode))
+    }
+
+    // Where each floor's next heats go: after its highest heat number so far (numbers run on across
+    // sessions), timed after the last heat already in the session or from the session's start.
+    // Locked heats only count when continuing after them; otherwise new heats are numbered around them.
+    function floorStartsFor(session: SessionConfig | undefined, afterLockedHeats: boolean) {
+        const floorStarts: Record<string, { heat: number, time?: string }> = {}
+        const lockedKeys = new Set(participants.value.filter(p => p.heatLocked && p.heat !== undefined).map(p => heatKey(p.floorId, p.heat!)))
+        const heats = Array.from(scheduleTimeline.value.heats.values())
+            .filter(h => afterLockedHeats || !lockedKeys.has(heatKey(h.floorId, h.heat)))
+        const floorIds = floors.value.length > 0 ? floors.value.map(f => f.id) : [DEFAULT_FLOOR_ID]
+        floorIds.forEach(floorId => {
+            const onFloor = heats.filter(h => h.floorId === floorId)
+            const inLane = onFloor.filter(h => h.sessionId === session?.id)
+            let time: string | undefined
+            if (inLane.length > 0) time = formatMinutes(Math.max(...inLane.map(h => h.end)))
+            else if (session) time = formatMinutes(getSessionDay(session, sessions.value) * 1440 + timeToMinutes(session.startTime))
+            if (onFloor.length > 0 || time) floorStarts[floorId] = { heat: Math.max(0, ...onFloor.map(h => h.heat)) + 1, time }
+        })
+        return floorStarts
+    }
+
+    function generateRundownNow(targetEventCode?: string) {
+        const scheduledIds = new Set(participants.value
+            .filter(p => (!targetEventCode || p.eventCode === targetEventCode) && !p.heatLocked)
+            .map(p => p.id))
+        participants.value.forEach(p => {
+            if (scheduledIds.has(p.id)) clearSchedule(p)
+        })
+        participants.value = [...participants.value] // Trigger reactivity
+
+        // Each session is scheduled on its own, in running order; without sessions it's one run
+        const runs: (SessionConfig | undefined)[] = sessions.value.length === 0
+            ? [undefined]
+            : sortSessions(sessions.value).filter(s => !targetEventCode || getEventSessionId(targetEventCode) === s.id)
+
+        runs.forEach(session => {
+            const eventCodes = session
+                ? Array.from(new Set(participants.value.map(p => p.eventCode))).filter(code => getEventSessionId(code) === session.id)
+                : undefined
+            const { results } = scheduleParticipants(participants.value, events.value, entryCodes.value, getRundownConfig, {
+                targetEventCode,
+                eventCodes,
+                floors: floors.value,
+                floorStarts: floorStartsFor(session, !!targetEventCode)
+            })
+
+            results.forEach(u => {
+                const p = participants.value.find(p => p.id === u.participantId)
+                if (p) {
+                    p.floorId = u.floorId
+                    p.heat = u.heat
+                    p.station = u.station
+                    p.scheduleTime = u.scheduleTime
                 }
-            }
-        }
+            })
+            participants.value = [...participants.value] // Trigger reactivity
+        })
+
+        applyTimelineTimes()
+        saveCurrentCompetition()
+        return rundownWarnings.value.filter(w => w.participantIds.some(id => scheduledIds.has(id)))
+    }
+
+    // --- Heat grid editing ---
+
+    function isHeatLocked(floorId: string, heat: number) {
+        return participants.value.some(p => p.heatLocked && p.heat === heat && (p.floorId || DEFAULT_FLOOR_ID) === floorId)
+    }
+
+    function setHeatLocked(floorId: string, heat: number, locked: boolean) {
+        const inHeat = participants.value.filter(p => p.heat === heat && (p.floorId || DEFAULT_FLOOR_ID) === floorId)
+        if (inHeat.length === 0) return
+        recordHistory(`${locked ? 'Lock' : 'Unlock'} heat ${heat}`)
+        inHeat.forEach(p => { p.heatLocked = locked || undefined })
+        participants.value = [...participants.value]
+        saveCurrentCompetition()
+    }
 
-        const updates = scheduleParticipants(participants.value, events.value, entryCodes.value, getRundownConfig, {
-            targetEventCode,
-            startHeatNumber: startHeat,
-            initialStartTime: startTime
+    // Puts an entry on a station; an entry already there swaps into the vacated slot. Locked heats refuse.
+    function moveEntryToSlot(entryKey: string, floorId: string, heat: number, station: number) {
+        const members = getEntryParticipants(entryKey)
+        const from = members[0]
+        if (!from || from.heatLocked || isHeatLocked(floorId, heat)) return false
+        if ((from.floorId || DEFAULT_FLOOR_ID) === floorId && from.heat === heat && from.station === station) return true
+
+        recordHistory(`Move ${members.map(m => m.name).join(' / ')} to heat ${heat} station ${station}`)
+        const occupants = participants.value.filter(p =>
+            p.heat === heat && p.station === station && (p.floorId || DEFAULT_FLOOR_ID) === floorId && !members.includes(p))
+        const vacated = { ...from }
+        occupants.forEach(o => from.heat === undefined ? clearSchedule(o) : copySchedule(vacated, o))
+        members.forEach(m => {
+            m.floorId = floorId
+            m.heat = heat
+            m.station = station
+        })
+        participants.value = [...participants.value]
+        applyTimelineTimes()
+        saveCurrentCompetition()
+        return true
+    }
+
+    // Gives every scheduled participant on the floor a new heat number
+    function renumberHeats(floorId: string, newNumber: (heat: number) => number) {
+        participants.value.forEach(p => {
+            if (p.heat !== undefined && (p.floorId || DEFAULT_FLOOR_ID) === floorId) p.heat = newNumber(p.heat)
+        })
+        participants.value = [...participants.value]
+        applyTimelineTimes()
+        saveCurrentCompetition()
+    }
+
+    function getFloorHeatCount(floorId: string) {
+        return participants.value.reduce((max, p) => (p.floorId || DEFAULT_FLOOR_ID) === floorId ? Math.max(max, p.heat || 0) : max, 0)
+    }
+
+    // Moves a whole heat to another position; the heats in between shift up or down by one
+    function moveHeat(floorId: string, fromHeat: number, toHeat: number) {
+        if (fromHeat === toHeat) return
+        const count = Math.max(getFloorHeatCount(floorId), fromHeat, toHeat)
+        const order = Array.from({ length: count }, (_, i) => i + 1)
+        order.splice(fromHeat - 1, 1)
+        order.splice(toHeat - 1, 0, fromHeat)
+        const positions = new Map(order.map((heat, i) => [heat, i + 1]))
+        recordHistory(`Move heat ${fromHeat} to ${toHeat}`)
+        renumberHeats(floorId, heat => positions.get(heat) ?? heat)
+    }
+
+    // Opens an empty heat at `heat`; it takes no time until entries are put in it
+    function insertHeat(floorId: string, heat: number) {
+        recordHistory(`Insert heat ${heat}`)
+        renumberHeats(floorId, h => h >= heat ? h + 1 : h)
+    }
+
+    function deleteHeat(floorId: string, heat: number) {
+        if (participants.value.some(p => p.heat === heat && (p.floorId || DEFAULT_FLOOR_ID) === floorId)) return false
+        recordHistory(`Delete heat ${heat}`)
+        renumberHeats(floorId, h => h > heat ? h - 1 : h)
+        return true
+    }
+
+    // --- Entry status ---
+
+    // Scratching keeps the entry (and its code and station); nothing else in the rundown moves
+    function setEntryStatus(entryKey: string, status: EntryStatus, reason?: string) {
+        const members = getEntryParticipants(entryKey)
+        if (members.length === 0) return
+        recordHistory(`Mark ${members.map(m => m.name).join(' / ')} ${ENTRY_STATUS_LABELS[status]}`)
+        const statusAt = new Date().toISOString()
+        members.forEach(m => {
+            m.status = status === 'active' ? undefined : status
+            m.statusReason = status === 'active' ? undefined : reason?.trim() || undefined
+            m.statusAt = statusAt
         })
+        participants.value = [...participants.value]
+        saveCurrentCompetition()
+    }
 
-        clearRundown(targetEventCode)
+    // Puts an entry into a free station of its event's heats, or a new heat straight after the event's
+    // last one, without moving anyone else. False when the event isn't in the rundown yet.
+    function slotLateEntry(entryKey: string) {
+        const members = getEntryParticipants(entryKey)
+        const first = members[0]
+        if (!first) return false
+        if (first.heat !== undefined) return true
+        const eventHeats = participants.value.filter(p => p.eventCode === first.eventCode && p.heat !== undefined)
+        if (eventHeats.length === 0) return false
 
-        updates.forEach(u => {
-            const p = participants.value.find(p => p.id === u.participantId)
-            if (p) {
-                p.heat = u.heat
-                p.station = u.station
-                p.scheduleTime = u.scheduleTime
+        return withHistory(`Slot late entry ${members.map(m => m.name).join(' / ')}`, () => {
+            let slot = findFreeStation(participants.value, first.eventCode, getRundownConfig, floors.value)
+            if (!slot) {
+                const floorId = getEventFloorId(first.eventCode)
+                const onFloor = eventHeats.filter(p => (p.floorId || DEFAULT_FLOOR_ID) === floorId)
+                const heat = (onFloor.length > 0 ? Math.max(...onFloor.map(p => p.heat!)) : getFloorHeatCount(floorId)) + 1
+                insertHeat(floorId, heat)
+                slot = { floorId, heat, station: 1 }
             }
+            const { floorId, heat, station } = slot
+            members.forEach(m => {
+                m.floorId = floorId
+                m.heat = heat
+                m.station = station
+            })
+            participants.value = [...participants.value]
+            applyTimelineTimes()
+            saveCurrentCompetition()
+            return true
         })
+    }
 
-        participants.value = [...participants.value] // Trigger reactivity
+    // An entry made after the rundown: marked late and slotted in where the event already runs
+    function addLateEntry(draft: EntryDraft) {
+        return withHistory(`Add late entry ${draft.names.join(' / ')} (${draft.eventCode} / ${draft.division})`, () => {
+            const entryKey = createEntry(draft)
+            if (entryKey) {
+                setEntryStatus(entryKey, 'late')
+                slotLateEntry(entryKey)
+            }
+            return entryKey
+        })
+    }
+
+    function isEventScheduled(eventCode: string) {
+        return participants.value.some(p => p.eventCode === eventCode && p.heat !== undefined)
+    }
+
+    const heatIssues = computed<HeatIssue[]>(() => findHeatIssues(participants.value, getRundownConfig, floors.value))
+
+    // --- Results ---
+
+    function getEventScoringKind(eventCode: string): ScoringKind {
+        return getScoringKind(eventCode, events.value)
+    }
+
+    function getEntryResult(entryKey: string) {
+        return results.value.find(r => r.entryKey === entryKey)
+    }
+
+    // Typing into a result's fields merges into one undo step per entry
+    function setEntryResult(entryKey: string, updates: Partial<Omit<EntryResult, 'entryKey' | 'updatedAt'>>) {
+        const members = getEntryParticipants(entryKey)
+        if (members.length === 0) return
+        recordHistory(`Enter result for ${members.map(m => m.name).join(' / ')}`, `result|${entryKey}`)
+        const existing = getEntryResult(entryKey)
+        const updated: EntryResult = { ...existing, ...updates, entryKey, updatedAt: new Date().toISOString() }
+        results.value = existing ? results.value.map(r => r === existing ? updated : r) : [...results.value, updated]
+        saveCurrentCompetition()
+    }
+
+    function clearEntryResult(entryKey: string) {
+        if (!getEntryResult(entryKey)) return
+        recordHistory('Clear result')
+        results.value = results.value.filter(r => r.entryKey !== entryKey)
+        saveCurrentCompetition()
+    }
+
+    function updateScoring(updates: Partial<ScoringConfig>) {
+        recordHistory('Change scoring settings', 'scoring')
+        scoring.value = { ...scoring.value, ...updates }
         saveCurrentCompetition()
     }
 
-    function swapParticipants(id1: string, id2: string, recordHistory = true) {
+    const eventRankings = computed(() => rankResults(participants.value, results.value, events.value, divisions.value, entryCodes.value, scoring.value))
+    const teamStandings = computed(() => computeTeamStandings(eventRankings.value))
+    const overallStandings = computed(() => computeOverallStandings(eventRankings.value))
+
+    const validationFindings = computed<ValidationFinding[]>(() => validateEntries({
+        participants: participants.value, athletes: athletes.value, events: events.value,
+        divisions: divisions.value, competitionDate: competitionDate.value
+    }))
+
+    // Live check so manual swaps and moves are flagged too, not just the last generation
+    const rundownWarnings = computed<ScheduleWarning[]>(() => findAthleteConflicts(participants.value, getRundownConfig, floors.value))
+
+    function swapParticipants(id1: string, id2: string, trackHistory = true) {
         const p1 = participants.value.find(x => x.id === id1)
         const p2 = participants.value.find(x => x.id === id2)
         if (!p1 || !p2) return
 
-        if (recordHistory) pushHistory(`Swap ${p1.name} <-> ${p2.name}`, () => swapParticipants(id1, id2, false))
+        if (trackHistory) recordHistory(`Swap ${p1.name} <-> ${p2.name}`)
 
+        const tempFloor = p1.floorId
         const tempHeat = p1.heat
         const tempStation = p1.station
         const tempTime = p1.scheduleTime
 
-        p1.heat = p2.heat; p1.station = p2.station; p1.scheduleTime = p2.scheduleTime
-        p2.heat = tempHeat; p2.station = tempStation; p2.scheduleTime = tempTime
-
-        p2.heat = tempHeat; p2.station = tempStation; p2.scheduleTime = tempTime
+        p1.floorId = p2.floorId; p1.heat = p2.heat; p1.station = p2.station; p1.scheduleTime = p2.scheduleTime
+        p2.floorId = tempFloor; p2.heat = tempHeat; p2.station = tempStation; p2.scheduleTime = tempTime
 
         participants.value = [...participants.value] // Trigger reactivity
         saveCurrentCompetition()
     }
 
-    function updateParticipant(id: string, updates: Partial<Participant>, recordHistory = true) {
+    function updateParticipant(id: string, updates: Partial<Participant>, trackHistory = true) {
         const p = participants.value.find(p => p.id === id)
         if (!p) return
-        if (recordHistory) {
-            const prevData: Partial<Participant> = {}
-            Object.keys(updates).forEach(key => { prevData[key as keyof Participant] = p[key as keyof Participant] as any })
-            pushHistory(`Update ${p.name}`, () => updateParticipant(id, prevData, false))
-        }
+        if (trackHistory) recordHistory(`Update ${p.name}`)
+        const moved = (updates.eventCode !== undefined && updates.eventCode !== p.eventCode) ||
+            (updates.division !== undefined && updates.division !== p.division)
         Object.assign(p, updates)
+        // An entry moved to another event/division takes that division's next number
+        if (moved && updates.entryNumber === undefined) p.entryNumber = undefined
         participants.value = [...participants.value]
+        numberEntries()
         saveCurrentCompetition()
     }
 
     function getParticipantEntryCode(p: Participant) {
-        const eventData = hierarchy.value.find(h => h.event.code === p.eventCode)
-        const divData = eventData?.divisions.find(d => d.division === p.division)
-        if (!divData) return '-'
-        const list = divData.participants
-        let index = p.groupId ? -1 : list.indexOf(p) + 1
-        if (p.groupId) {
-            let counter = 0
-            const processed = new Set<string>()
-            for (const item of list) {
-                if (item.groupId && !processed.has(item.groupId)) { processed.add(item.groupId); counter++ }
-                else if (!item.groupId) counter++
-                if (item.id === p.id) { index = counter; break }
-            }
-        }
-        return divData.entryCode ? `${divData.entryCode}${String(index).padStart(3, '0')}` : '-'
+        return formatEntryCode(getEntryCode(p.eventCode, p.division), p.entryNumber)
+    }
+
+    // Codes that renumbering a division would change, for a preview before committing
+    function previewRenumber(eventCode: string, divisionName: string): RenumberChange[] {
+        return planRenumber(participants.value, eventCode, divisionName)
+    }
+
+    function renumberDivision(eventCode: string, divisionName: string) {
+        const changes = previewRenumber(eventCode, divisionName)
+        if (changes.length === 0) return
+        recordHistory(`Renumber ${eventCode} / ${divisionName}`)
+        const numbers = new Map(changes.flatMap(c => c.participantIds.map(pid => [pid, c.to] as const)))
+        participants.value = participants.value.map(p => numbers.has(p.id) ? { ...p, entryNumber: numbers.get(p.id) } : p)
+        saveCurrentCompetition()
     }
 
     // Competition management functions...
     const activeCompetitionId = ref<string | null>(localStorage.getItem('active_competition_id'))
-    const savedCompetitions = ref<Array<{ id: string, name: string, date: string, lastModified: string }>>([])
-    try {
-        const rawIndex = localStorage.getItem('saved_competitions_index')
-        if (rawIndex) savedCompetitions.value = JSON.parse(rawIndex)
-    } catch (e) { }
-
-    // Auto-hydrate if active ID exists
-    if (activeCompetitionId.value) {
-        // We call the logic directly or reuse loadCompetition but we must ensure we don't double set
-        // Calling loadCompetition is safe
-        // We need to define loadCompetition before calling it? 
-        // No, function hoisting works for declarations, but this is inside setup().
-        // Functions defined as `function foo() {}` are hoisted within the scope usually, 
-        // but here they are siblings.
-        // Wait, standard function declarations are hoisted to top of scope.
-        // But `loadCompetition` is defined BELOW. 
-        // In Vue setup() / JS modules, function declarations *are* hoisted.
-        // However, better safely place this check at the END of the store definition (before return).
+    const savedCompetitions = ref<CompetitionMeta[]>([])
+    const storageError = ref<string | null>(null) // Last failed save, shown as a banner until the next successful one
+
+    // Record JSON as last written, so each save only sends what changed
+    let savedParticipantJson = new Map<string, string>()
+    let savedAthleteJson = new Map<string, string>()
+    // Writes are chained so they land in order and loads can wait for pending saves
+    let saveChain: Promise<void> = Promise.resolve()
+
+    // --- Competition day ---
+
+    function setLiveMode(enabled: boolean) {
+        recordHistory(enabled ? 'Start live mode' : 'Stop live mode')
+        live.value = { ...live.value, enabled }
+        saveCurrentCompetition()
     }
 
+    function getLiveHeat(floorId: string, heat: number) {
+        return live.value.heats.find(h => h.floorId === floorId && h.heat === heat)
+    }
+
+    // `undefined` clears a time, e.g. a heat started by mistake
+    function setLiveHeatTimes(floorId: string, heat: number, times: Partial<Pick<LiveHeatLog, 'startedAt' | 'finishedAt'>>) {
+        const existing = getLiveHeat(floorId, heat)
+        const updated: LiveHeatLog = { ...existing, ...times, floorId, heat }
+        const others = live.value.heats.filter(h => h !== existing)
+        live.value = { ...live.value, heats: updated.startedAt || updated.finishedAt ? [...others, updated] : others }
+        saveCurrentCompetition()
+    }
+
+    // Starting a heat finishes the one still running on that floor
+    function startHeat(floorId: string, heat: number, at = new Date()) {
+        withHistory(`Start heat ${heat}`, () => {
+            live.value.heats
+                .filter(h => h.floorId === floorId && h.heat !== heat && h.startedAt && !h.finishedAt)
+                .forEach(h => setLiveHeatTimes(floorId, h.heat, { finishedAt: at.toISOString() }))
+            setLiveHeatTimes(floorId, heat, { startedAt: at.toISOString(), finishedAt: undefined })
+        })
+    }
+
+    function finishHeat(floorId: string, heat: number, at = new Date()) {
+        recordHistory(`Finish heat ${heat}`)
+        setLiveHeatTimes(floorId, heat, { finishedAt: at.toISOString() })
+    }
+
+    function correctLiveHeat(floorId: string, heat: number, times: Partial<Pick<LiveHeatLog, 'startedAt' | 'finishedAt'>>) {
+        recordHistory(`Correct heat ${heat} times`)
+        setLiveHeatTimes(floorId, heat, times)
+    }
+
+    function resetLive() {
+        recordHistory('Reset live times')
+        live.value = { ...live.value, heats: [] }
+        saveCurrentCompetition()
+    }
+
+    // Takes the clock as an argument so callers decide how often projections refresh
+    function getLiveProjection(now: Date) {
+        return projectLiveTimeline(scheduleTimeline.value, live.value.heats, now)
+    }
+
+    function queueWrite(write: () => Promise<void>) {
+        saveChain = saveChain.then(write).then(() => {
+            storageError.value = null
+        }).catch(e => {
+            console.error("Failed to save", e)
+            storageError.value = e instanceof StorageError ? e.message : 'Saving failed.'
+            // Forget what was written so the next save sends every record again
+            savedParticipantJson = new Map()
+            savedAthleteJson = new Map()
+        })
+        return saveChain
+    }
+
+    function currentSettings() {
+        return {
+            events: events.value, divisions: divisions.value, entryCodes: entryCodes.value, entryCodeScheme: entryCodeScheme.value,
+            eventStartTimes: eventStartTimes.value, eventRundownConfigs: eventRundownConfigs.value,
+            floors: floors.value, scheduleBlocks: scheduleBlocks.value, sessions: sessions.value, results: results.value, scoring: scoring.value,
+            live: live.value, competitionTitle: competitionTitle.value, competitionDate: competitionDate.value
+        }
+    }
+
+    function snapshotRecords(list: { id: string }[]) {
+        return new Map(list.map(r => [r.id, JSON.stringify(r)]))
+    }
+
+    function diffRecords<T>(current: Map<string, string>, saved: Map<string, string>): RecordChanges<T> {
+        const upserts: T[] = []
+        current.forEach((json, rid) => {
+            if (saved.get(rid) !== json) upserts.push(JSON.parse(json))
+        })
+        const deletedIds = Array.from(saved.keys()).filter(rid => !current.has(rid))
+        return { upserts, deletedIds }
+    }
 
     function saveCurrentCompetition() {
         if (!activeCompetitionId.value) return
-        isAutoSaving = true
-        const data = { events: events.value, divisions: divisions.value, participants: participants.value, entryCodes: entryCodes.value, eventStartTimes: eventStartTimes.value, competitionTitle: competitionTitle.value, competitionDate: competitionDate.value }
-        try {
-            localStorage.setItem(`comp_data_${activeCompetitionId.value}`, JSON.stringify(data))
-            const comp = savedCompetitions.value.find(c => c.id === activeCompetitionId.value)
-            if (comp) { comp.lastModified = new Date().toISOString(); comp.name = competitionTitle.value; comp.date = competitionDate.value }
-            localStorage.setItem('saved_competitions_index', JSON.stringify(savedCompetitions.value))
-        } catch (e) { alert("Storage Full!") }
+        const id = activeCompetitionId.value
+
+        // Diff synchronously so later edits can't leak into this write
+        const currentParticipants = snapshotRecords(participants.value)
+        const currentAthletes = snapshotRecords(athletes.value)
+        const participantChanges = diffRecords<Participant>(currentParticipants, savedParticipantJson)
+        const athleteChanges = diffRecords<Athlete>(currentAthletes, savedAthleteJson)
+        savedParticipantJson = currentParticipants
+        savedAthleteJson = currentAthletes
+        const settings = JSON.parse(JSON.stringify(currentSettings()))
+
+        const comp = savedCompetitions.value.find(c => c.id === id)
+        if (comp) { comp.lastModified = new Date().toISOString(); comp.name = competitionTitle.value; comp.date = competitionDate.value }
+        const meta = comp ? { ...comp } : null
+
+        return queueWrite(async () => {
+            await saveCompetitionChanges(id, settings, participantChanges, athleteChanges)
+            if (meta) await saveMeta(meta)
+        })
+    }
+
+    function applyCompetitionData(data: CompetitionData | null) {
+        events.value = data?.events || [...DEFAULT_EVENTS]
+        divisions.value = data?.divisions || [...DEFAULT_DIVISIONS]
+        participants.value = data?.participants || []
+        athletes.value = data?.athletes || []
+        entryCodes.value = data?.entryCodes || {}
+        entryCodeScheme.value = data?.entryCodeScheme || ''
+        eventStartTimes.value = data?.eventStartTimes || {}
+        eventRundownConfigs.value = { 'GLOBAL': { ...defaultRundownConfig }, ...(data?.eventRundownConfigs || {}) }
+        floors.value = data?.floors || []
+        scheduleBlocks.value = data?.scheduleBlocks || []
+        sessions.value = data?.sessions || []
+        results.value = data?.results || []
+        scoring.value = { ...DEFAULT_SCORING, ...(data?.scoring || {}) }
+        live.value = { ...DEFAULT_LIVE_STATE, heats: [], ...(data?.live || {}) }
+        savedParticipantJson = snapshotRecords(participants.value)
+        savedAthleteJson = snapshotRecords(athletes.value)
+        clearHistory()
     }
 
     function createCompetition(name: string, date: string) {
         const id = crypto.randomUUID()
         const newComp = { id, name, date, lastModified: new Date().toISOString() }
         savedCompetitions.value.push(newComp)
-        localStorage.setItem('saved_competitions_index', JSON.stringify(savedCompetitions.value))
 
         activeCompetitionId.value = id
         localStorage.setItem('active_competition_id', id)
         competitionTitle.value = name
         competitionDate.value = date
 
-        events.value = [...DEFAULT_EVENTS]
-        divisions.value = [...DEFAULT_DIVISIONS]
-        participants.value = []
-        entryCodes.value = {}
-        eventStartTimes.value = {}
-
-        saveCurrentCompetition()
+        applyCompetitionData(null)
+        const data = getCompetitionDataSync()
+        queueWrite(() => replaceCompetition(id, newComp, data))
         return id
     }
 
-    function loadCompetition(id: string) {
+    async function loadCompetition(id: string) {
         const comp = savedCompetitions.value.find(c => c.id === id)
         if (!comp) return
 
@@ -345,58 +1325,128 @@ export const useNamelistStore = defineStore('namelist', () => {
         competitionTitle.value = comp.name
         competitionDate.value = comp.date
 
-        const dataStr = localStorage.getItem(`comp_data_${id}`)
-        if (dataStr) {
-            try {
-                const data = JSON.parse(dataStr)
-                events.value = data.events || [...DEFAULT_EVENTS]
-                divisions.value = data.divisions || [...DEFAULT_DIVISIONS]
-                participants.value = data.participants || []
-                entryCodes.value = data.entryCodes || {}
-                eventStartTimes.value = data.eventStartTimes || {}
-            } catch (e) {
-                console.error("Failed to load data", e)
-            }
+        await saveChain
+        try {
+            applyCompetitionData(await loadCompetitionData(id))
+        } catch (e) {
+            console.error("Failed to load data", e)
+            storageError.value = e instanceof StorageError ? e.message : 'Loading failed.'
         }
     }
 
-    function deleteCompetition(id: string) {
+    async function deleteCompetition(id: string) {
         const idx = savedCompetitions.value.findIndex(c => c.id === id)
         if (idx !== -1) savedCompetitions.value.splice(idx, 1)
-        localStorage.setItem('saved_competitions_index', JSON.stringify(savedCompetitions.value))
-        localStorage.removeItem(`comp_data_${id}`)
 
         if (activeCompetitionId.value === id) {
             activeCompetitionId.value = null
             localStorage.removeItem('active_competition_id')
-            wipeAllData()
+            participants.value = []
+            athletes.value = []
+            savedParticipantJson = new Map()
+            savedAthleteJson = new Map()
         }
+        await queueWrite(() => deleteCompetitionRecords(id))
     }
 
-    function updateCompetitionMetadata(id: string, updates: Partial<typeof savedCompetitions.value[0]>) {
+    function getCompetitionDataSync(): CompetitionData {
+        return { ...currentSettings(), participants: participants.value, athletes: athletes.value }
+    }
+
+    async function getCompetitionData(id: string): Promise<CompetitionData | null> {
+        if (id === activeCompetitionId.value) return getCompetitionDataSync()
+        await saveChain
+        return loadCompetitionData(id)
+    }
+
+    async function exportCompetition(id: string): Promise<CompetitionBundle | null> {
+        const comp = savedCompetitions.value.find(c => c.id === id)
+        const data = await getCompetitionData(id)
+        if (!comp || !data) return null
+        return createBundle(comp, data)
+    }
+
+    /**
+     * Recreates a competition from a bundle.
+     * 'overwrite' replaces the competition with the bundle's id; 'copy' always stores it under a new id.
+     */
+    async function importCompetition(bundle: CompetitionBundle, mode: 'overwrite' | 'copy') {
+        const id = mode === 'copy' ? crypto.randomUUID() : bundle.competition.id
+        const name = mode === 'copy' && savedCompetitions.value.some(c => c.id === bundle.competition.id)
+            ? `${bundle.competition.name} (Copy)`
+            : bundle.competition.name
+        const meta: CompetitionMeta = { ...bundle.competition, id, name, lastModified: new Date().toISOString() }
+        const data: CompetitionData = { ...bundle.data, competitionTitle: name }
+
+        await queueWrite(() => replaceCompetition(id, meta, data))
+        if (storageError.value) return null
+
+        const idx = savedCompetitions.value.findIndex(c => c.id === id)
+        if (idx !== -1) savedCompetitions.value.splice(idx, 1, meta)
+        else savedCompetitions.value.push(meta)
+
+        if (activeCompetitionId.value === id) await loadCompetition(id)
+        return id
+    }
+
+    function updateCompetitionMetadata(id: string, updates: Partial<CompetitionMeta>) {
         const comp = savedCompetitions.value.find(c => c.id === id)
         if (comp) {
             Object.assign(comp, updates)
-            localStorage.setItem('saved_competitions_index', JSON.stringify(savedCompetitions.value))
+            const meta = { ...comp }
+            queueWrite(() => saveMeta(meta))
             if (activeCompetitionId.value === id) {
                 if (updates.name) competitionTitle.value = updates.name
                 if (updates.date) competitionDate.value = updates.date
             }
         }
     }
-    // Auto-hydrate
-    if (activeCompetitionId.value) {
-        loadCompetition(activeCompetitionId.value)
+
+    /**
+     * Loads the competition index (moving any localStorage-era competitions over first)
+     * and hydrates the active competition. Must finish before the app mounts.
+     */
+    async function init() {
+        try {
+            await migrateFromLocalStorage()
+            savedCompetitions.value = await loadIndex()
+        } catch (e) {
+            console.error("Failed to open storage", e)
+            storageError.value = e instanceof StorageError ? e.message : 'Local storage is unavailable.'
+        }
+
+        // Auto-hydrate
+        if (activeCompetitionId.value) {
+            if (savedCompetitions.value.some(c => c.id === activeCompetitionId.value)) {
+                await loadCompetition(activeCompetitionId.value)
+            } else {
+                activeCompetitionId.value = null
+                localStorage.removeItem('active_competition_id')
+            }
+        }
     }
 
     return {
-        events, divisions, participants, entryCodes, getRundownConfig, updateRundownConfig,
-        addParticipant, upsertParticipants, clearParticipants, wipeAllData, setEntryCode,
-        getEntryCode, getParticipantEntryCode, hierarchy, teams, generateRundown,
+        events, divisions, participants, athletes, athletesById, getAthleteEntries, updateAthlete,
+        entryCodes, entryCodeScheme, schemeEntryCodes, entryCodeOverrides, duplicateEntryCodes, entryNumberClashes, applyEntryCodeScheme,
+        getRundownConfig, updateRundownConfig,
+        addParticipant, upsertParticipants, getEntryParticipants, createEntry, updateEntry, moveEntry, deleteEntry,
+        joinEntries, splitEntryMember, clearParticipants, wipeAllData, setEntryCode,
+        getEntryCode, getParticipantEntryCode, previewRenumber, renumberDivision, hierarchy, teams, generateRundown, rundownWarnings,
         clearRundown, updateParticipant, swapParticipants, eventStartTimes,
-        setEventStartTime, getEventStartTime, competitionTitle, competitionDate,
-        history, undo, activeCompetitionId, savedCompetitions, saveCurrentCompetition,
-        deleteDivision, renameDivision, deleteTeam,
-        createCompetition, loadCompetition, deleteCompetition, updateCompetitionMetadata
+        setEventStartTime, getEventStartTime, floors, addFloor, updateFloor, removeFloor,
+        scheduleBlocks, addScheduleBlock, updateScheduleBlock, removeScheduleBlock, scheduleTimeline,
+        sessions, addSession, updateSession, removeSession, getEventSessionId, getSessionName,
+        isHeatLocked, setHeatLocked, moveEntryToSlot, moveHeat, insertHeat, deleteHeat, getFloorHeatCount, heatIssues,
+        setEntryStatus, slotLateEntry, addLateEntry, isEventScheduled,
+        results, scoring, getEventScoringKind, getEntryResult, setEntryResult, clearEntryResult, updateScoring,
+        eventRankings, teamStandings, overallStandings,
+        live, setLiveMode, getLiveHeat, startHeat, finishHeat, correctLiveHeat, resetLive, getLiveProjection,
+        getEventFloorId, getFloorName, competitionTitle, competitionDate,
+        history, redoStack, undo, redo, undoTo, activeCompetitionId, savedCompetitions, saveCurrentCompetition, storageError, init,
+        deleteDivision, renameDivision, deleteTeam, mergeAthletes, mergeTeams, addEvent, removeEvent, moveEvent,
+        toggleEventDivision, addDivision, setDivisionPrefix, moveDivision, updateEventRules, updateDivisionRules, validationFindings,
+        createCompetition, loadCompetition, deleteCompetition, updateCompetitionMetadata,
+        exportCompetition, importCompetition
     }
 })
\ No newline at end of file